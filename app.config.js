@@ -1,3 +1,11 @@
+const siteHost = new URL(process.env.EXPO_PUBLIC_SITE_URL || "https://puntos-club-admin.vercel.app").host;
+
+// EAS sets the profile; local `expo start` and `expo run` are development
+// unless bundling for production.
+const isDevelopmentBuild = process.env.EAS_BUILD_PROFILE
+  ? process.env.EAS_BUILD_PROFILE === "development"
+  : process.env.NODE_ENV !== "production";
+
 module.exports = {
   expo: {
     name: "PuntosClub",
@@ -9,7 +17,8 @@ module.exports = {
     userInterfaceStyle: "automatic",
     ios: {
       supportsTablet: true,
-      bundleIdentifier: "com.agustincassani.PuntosClub"
+      bundleIdentifier: "com.agustincassani.PuntosClub",
+      associatedDomains: [`applinks:${siteHost}`]
     },
     android: {
       package: "com.agustincassani.PuntosClub",
@@ -21,7 +30,18 @@ module.exports = {
       },
       predictiveBackGestureEnabled: false,
       googleServicesFile: "./google-services.json",
-      softwareKeyboardLayoutMode: "pan"
+      softwareKeyboardLayoutMode: "pan",
+      intentFilters: [
+        {
+          action: "VIEW",
+          autoVerify: true,
+          data: [
+            { scheme: "https", host: siteHost, pathPrefix: "/join" },
+            { scheme: "https", host: siteHost, pathPrefix: "/organization" }
+          ],
+          category: ["BROWSABLE", "DEFAULT"]
+        }
+      ]
     },
     web: {
       output: "static",
@@ -58,6 +78,27 @@ module.exports = {
     },
     extra: {
       googleMapsApiKey: process.env.EXPO_PUBLIC_GOOGLE_MAPS_API_KEY,
+      inviteCodePublicKey: process.env.EXPO_PUBLIC_INVITE_CODE_PUBLIC_KEY,
+      walletPass: {
+        passTypeIdentifier: process.env.EXPO_PUBLIC_WALLET_PASS_TYPE_ID,
+        teamIdentifier: process.env.EXPO_PUBLIC_WALLET_TEAM_ID,
+        // Local test certificate. Never added to preview or production
+        // builds: anything in `extra` can be read from the shipped app.
+        testSigner: isDevelopmentBuild && process.env.WALLET_TEST_CERT_PEM ? {
+          certificatePem: process.env.WALLET_TEST_CERT_PEM,
+          privateKeyPem: process.env.WALLET_TEST_KEY_PEM,
+          privateKeyPassword: process.env.WALLET_TEST_KEY_PASSWORD,
+          wwdrCertificatePem: process.env.WALLET_TEST_WWDR_PEM,
+        } : undefined
+      },
+      // Default days ahead of a points expiration to send a local reminder
+      pointsExpiration: {
+        reminderDays: 7,
+      },
+      // Batches of scrubbed error reports are POSTed here when set
+      errorReporting: {
+        endpoint: process.env.EXPO_PUBLIC_ERROR_REPORTING_URL,
+      },
       eas: {
         projectId: "d6083ee8-91db-4393-ab38-0fe2f2dce1d5"
       }
@@ -1,9 +1,37 @@
-import { Redirect, Stack } from 'expo-router';
+import { useEffect } from 'react';
+import { Redirect, Stack, router, useGlobalSearchParams, useSegments } from 'expo-router';
 import { useAuth } from '../../contexts/AuthContext';
 import { View, ActivityIndicator, StyleSheet } from 'react-native';
+import { consumePendingJoin, savePendingJoin } from '../../utils/joinLink';
+import TierCelebration from '../../components/TierCelebration';
 
 export default function AppLayout() {
   const { session, loading, beneficiary } = useAuth();
+  const segments: string[] = useSegments();
+  const params = useGlobalSearchParams<{ orgId?: string }>();
+  const isAuthenticated = !!session && !!beneficiary;
+  const pendingJoinId = segments[1] === 'join' && typeof params.orgId === 'string' ? params.orgId : null;
+
+  // Remember join links opened while signed out so they survive the redirect
+  useEffect(() => {
+    if (!loading && !isAuthenticated && pendingJoinId) {
+      savePendingJoin(pendingJoinId);
+    }
+  }, [loading, isAuthenticated, pendingJoinId]);
+
+  // Resume a parked join once the user is signed in
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    consumePendingJoin().then((organizationId) => {
+      if (organizationId && organizationId !== pendingJoinId) {
+        router.push({
+          pathname: '/(app)/join/[orgId]',
+          params: { orgId: organizationId },
+        });
+      }
+    });
+  }, [isAuthenticated, pendingJoinId]);
 
   if (loading) {
     return (
@@ -18,44 +46,87 @@ export default function AppLayout() {
   }
 
   return (
-    <Stack>
-      <Stack.Screen
-        name="index"
-        options={{
-          title: 'PuntosClub',
-          headerStyle: { backgroundColor: '#7C3AED' },
-          headerTintColor: '#FFFFFF',
-          headerTitleStyle: { fontWeight: 'bold' },
-        }}
-      />
-      <Stack.Screen
-        name="explore"
-        options={{
-          title: 'Explorar',
-          headerStyle: { backgroundColor: '#7C3AED' },
-          headerTintColor: '#FFFFFF',
-          headerTitleStyle: { fontWeight: 'bold' },
-        }}
-      />
-      <Stack.Screen
-        name="organization/[id]"
-        options={{
-          title: 'Organizacion',
-          headerStyle: { backgroundColor: '#7C3AED' },
-          headerTintColor: '#FFFFFF',
-          headerTitleStyle: { fontWeight: 'bold' },
-        }}
-      />
-      <Stack.Screen
-        name="profile"
-        options={{
-          title: 'Mi Perfil',
-          headerStyle: { backgroundColor: '#7C3AED' },
-          headerTintColor: '#FFFFFF',
-          headerTitleStyle: { fontWeight: 'bold' },
-        }}
-      />
-    </Stack>
+    <>
+      <Stack>
+        <Stack.Screen
+          name="index"
+          options={{
+            title: 'PuntosClub',
+            headerStyle: { backgroundColor: '#7C3AED' },
+            headerTintColor: '#FFFFFF',
+            headerTitleStyle: { fontWeight: 'bold' },
+          }}
+        />
+        <Stack.Screen
+          name="explore"
+          options={{
+            title: 'Explorar',
+            headerStyle: { backgroundColor: '#7C3AED' },
+            headerTintColor: '#FFFFFF',
+            headerTitleStyle: { fontWeight: 'bold' },
+          }}
+        />
+        <Stack.Screen
+          name="organization/[id]"
+          options={{
+            title: 'Organizacion',
+            headerStyle: { backgroundColor: '#7C3AED' },
+            headerTintColor: '#FFFFFF',
+            headerTitleStyle: { fontWeight: 'bold' },
+          }}
+        />
+        <Stack.Screen
+          name="join/[orgId]"
+          options={{
+            title: 'Unirse',
+            headerStyle: { backgroundColor: '#7C3AED' },
+            headerTintColor: '#FFFFFF',
+            headerTitleStyle: { fontWeight: 'bold' },
+          }}
+        />
+        <Stack.Screen
+          name="enter-code"
+          options={{
+            title: 'Ingresar codigo',
+            headerStyle: { backgroundColor: '#7C3AED' },
+            headerTintColor: '#FFFFFF',
+            headerTitleStyle: { fontWeight: 'bold' },
+          }}
+        />
+        <Stack.Screen
+          name="rewards"
+          options={{
+            title: 'Premios',
+            headerStyle: { backgroundColor: '#7C3AED' },
+            headerTintColor: '#FFFFFF',
+            headerTitleStyle: { fontWeight: 'bold' },
+          }}
+        />
+        <Stack.Screen
+          name="scan-receipt"
+          options={{ headerShown: false }}
+        />
+        <Stack.Screen
+          name="receipt-claims"
+          options={{
+            title: 'Mis tickets',
+            headerStyle: { backgroundColor: '#7C3AED' },
+            headerTintColor: '#FFFFFF',
+            headerTitleStyle: { fontWeight: 'bold' },
+          }}
+        />
+        <Stack.Screen
+          name="profile"
+          options={{
+            title: 'Mi Perfil',
+            headerStyle: { backgroundColor: '#7C3AED' },
+            headerTintColor: '#FFFFFF',
+            headerTitleStyle: { fontWeight: 'bold' },
+          }}
+        />
+      </Stack>
+      <TierCelebration />
+    </>
   );
 }
 
@@ -0,0 +1,232 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { router } from 'expo-router';
+import { useJoinConfirmation } from '../../hooks/useJoinConfirmation';
+import {
+  JOIN_CODE_LENGTH,
+  formatJoinCode,
+  getJoinCodeLockout,
+  isValidJoinCode,
+  normalizeJoinCode,
+  recordFailedJoinCodeAttempt,
+  resetJoinCodeAttempts,
+  resolveJoinCode,
+} from '../../utils/joinCode';
+
+export default function EnterCodeScreen() {
+  const { confirmJoin } = useJoinConfirmation();
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const isComplete = normalizeJoinCode(code).length === JOIN_CODE_LENGTH;
+  const lockSeconds = lockedUntil ? Math.max(0, Math.ceil((lockedUntil - now) / 1000)) : 0;
+  const isLocked = lockSeconds > 0;
+
+  useEffect(() => {
+    getJoinCodeLockout().then((ms) => {
+      if (ms > 0) setLockedUntil(Date.now() + ms);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!lockedUntil) return;
+
+    const intervalId = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= lockedUntil) {
+        setLockedUntil(null);
+        setError(null);
+      }
+    }, 1000);
+
+    return () => clearInterval(intervalId);
+  }, [lockedUntil]);
+
+  const lockFor = (ms: number) => {
+    setNow(Date.now());
+    setLockedUntil(Date.now() + ms);
+    setError('Demasiados intentos fallidos. Espera un momento antes de volver a intentar.');
+  };
+
+  // Only codes the server didn't find count; typos caught by the check
+  // character and connection problems aren't guesses
+  const handleNotFound = async (message: string) => {
+    const lockMs = await recordFailedJoinCodeAttempt();
+    if (lockMs > 0) {
+      lockFor(lockMs);
+    } else {
+      setError(message);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!isComplete || loading || isLocked) return;
+
+    setError(null);
+
+    if (!isValidJoinCode(code)) {
+      setError('El codigo no es valido. Revisa que lo hayas escrito bien.');
+      return;
+    }
+
+    setLoading(true);
+    const { organization, error: lookupError, notFound, lockedMs } = await resolveJoinCode(code);
+
+    if (lookupError || !organization) {
+      setLoading(false);
+      if (lockedMs > 0) {
+        lockFor(lockedMs);
+      } else if (notFound) {
+        await handleNotFound(lookupError?.message || 'No encontramos una organizacion con ese codigo.');
+      } else {
+        setError(lookupError?.message || 'No se pudo verificar el codigo. Intenta nuevamente.');
+      }
+      return;
+    }
+
+    await resetJoinCodeAttempts();
+    confirmJoin(organization.id.toString(), organization.name, () => setLoading(false));
+  };
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      style={styles.container}
+    >
+      <View style={styles.content}>
+        <Text style={styles.title}>Ingresa el codigo</Text>
+        <Text style={styles.subtitle}>
+          Encontras el codigo de {JOIN_CODE_LENGTH} caracteres debajo del QR de la organizacion
+        </Text>
+
+        <TextInput
+          style={[styles.input, error && styles.inputError]}
+          placeholder="XXXX-XXXX"
+          placeholderTextColor="#9CA3AF"
+          value={code}
+          onChangeText={(text) => {
+            setCode(formatJoinCode(text));
+            setError(null);
+          }}
+          autoCapitalize="characters"
+          autoCorrect={false}
+          autoFocus
+          maxLength={JOIN_CODE_LENGTH + 1}
+          editable={!isLocked}
+          onSubmitEditing={handleSubmit}
+          returnKeyType="done"
+        />
+
+        {error && <Text style={styles.errorText}>{error}</Text>}
+        {isLocked && (
+          <Text style={styles.lockText}>Podras intentar de nuevo en {lockSeconds}s</Text>
+        )}
+
+        <TouchableOpacity
+          style={[styles.button, (!isComplete || loading || isLocked) && styles.buttonDisabled]}
+          onPress={handleSubmit}
+          disabled={!isComplete || loading || isLocked}
+        >
+          {loading ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <Text style={styles.buttonText}>Continuar</Text>
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Text style={styles.backButtonText}>Volver</Text>
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#111827',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginBottom: 32,
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    fontSize: 28,
+    fontWeight: '600',
+    letterSpacing: 4,
+    textAlign: 'center',
+    color: '#111827',
+  },
+  inputError: {
+    borderColor: '#DC2626',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#DC2626',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  lockText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  button: {
+    backgroundColor: '#7C3AED',
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  backButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  backButtonText: {
+    color: '#6B7280',
+    fontSize: 16,
+  },
+});
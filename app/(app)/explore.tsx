@@ -13,17 +13,15 @@ import {
 } from 'react-native';
 import { Stack, router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
-import { useAuth } from '../../contexts/AuthContext';
+import { refreshOrganizations } from '../../contexts/AuthContext';
+import { joinOrganization, useMembershipStore } from '../../stores/membershipStore';
+import { useOrganizationDirectoryStore } from '../../stores/organizationDirectoryStore';
 import type { Organization } from '../../types';
 
 export default function ExploreScreen() {
-  const {
-    allOrganizations,
-    userOrganizations,
-    organizationsLoading,
-    joinOrganization,
-    refreshOrganizations,
-  } = useAuth();
+  const allOrganizations = useOrganizationDirectoryStore((state) => state.organizations);
+  const userOrganizations = useMembershipStore((state) => state.memberships);
+  const organizationsLoading = useMembershipStore((state) => state.loading);
 
   const [searchQuery, setSearchQuery] = useState('');
   const [joiningId, setJoiningId] = useState<string | null>(null);
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -11,29 +11,67 @@ import {
   Modal,
   Image,
 } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
 import QRCode from 'react-qr-code';
 import { useAuth } from '../../contexts/AuthContext';
 import { router } from 'expo-router';
+import { useQrToken } from '../../hooks/useQrToken';
+import { addCardToWallet } from '../../utils/walletPass';
+import ErrorState from '../../components/ErrorState';
+import RealtimeStatusBanner from '../../components/RealtimeStatusBanner';
+import TierBadge from '../../components/TierBadge';
+import GoalProgress from '../../components/GoalProgress';
+import { useGoalStore } from '../../stores/goalStore';
+import {
+  compareByExpiration,
+  formatExpirationDate,
+  isExpiringSoon,
+  nextExpiration,
+} from '../../utils/pointsExpiration';
+import { getTierProgress, tierColor } from '../../utils/tiers';
 import type { BeneficiaryOrganization } from '../../types';
 
+// Goals beyond this are summarized so cards keep a similar height
+const MAX_CARD_GOALS = 2;
+
 export default function HomeScreen() {
   const {
     beneficiary,
     userOrganizations,
     organizationsLoading,
+    organizationsError,
+    isOffline,
+    serverUnavailable,
     signOut,
     refreshOrganizations,
   } = useAuth();
+  const goals = useGoalStore((state) => state.goals);
   const [refreshing, setRefreshing] = React.useState(false);
   const [showQRModal, setShowQRModal] = useState(false);
+  const [walletLoading, setWalletLoading] = useState(false);
+  const [sortByExpiration, setSortByExpiration] = useState(false);
+
+  const sortedOrganizations = useMemo(
+    () => (sortByExpiration ? [...userOrganizations].sort(compareByExpiration) : userOrganizations),
+    [userOrganizations, sortByExpiration]
+  );
+
+  // Signed, rotating QR token - only carries the beneficiary ID
+  const { token: qrToken, secondsLeft, error: qrError, retry: retryQrToken } = useQrToken(beneficiary?.id, isOffline);
+  const qrValue = qrToken?.value ?? '';
 
-  // Generate QR code value - contains beneficiary ID for identification
-  const qrValue = beneficiary?.id ? JSON.stringify({
-    type: 'beneficiary',
-    id: beneficiary.id,
-    email: beneficiary.email,
-    name: `${beneficiary.first_name} ${beneficiary.last_name}`,
-  }) : '';
+  const handleAddToWallet = async () => {
+    if (!beneficiary) return;
+
+    setWalletLoading(true);
+    const totalPoints = userOrganizations.reduce((sum, org) => sum + org.available_points, 0);
+    const { error } = await addCardToWallet({ beneficiary, totalPoints });
+    setWalletLoading(false);
+
+    if (error) {
+      Alert.alert('Error', 'No se pudo agregar la tarjeta a tu billetera. Por favor intenta nuevamente.');
+    }
+  };
 
   const handleSignOut = async () => {
     Alert.alert(
@@ -70,34 +108,72 @@ export default function HomeScreen() {
     setRefreshing(false);
   }, [refreshOrganizations]);
 
-  const renderOrganizationCard = ({ item }: { item: BeneficiaryOrganization }) => (
-    <TouchableOpacity
-      style={styles.orgCard}
-      onPress={() => handleOrganizationPress(item)}
-      activeOpacity={0.7}
-    >
-      <View style={styles.orgCardContent}>
-        {item.organization?.logo_url && (
-          <Image
-            source={{ uri: item.organization.logo_url }}
-            style={styles.orgLogo}
-            resizeMode="contain"
-          />
-        )}
-        <View style={styles.orgInfo}>
-          <Text style={styles.orgName}>{item.organization?.name || 'Organizacion'}</Text>
-          <Text style={styles.orgSubtext}>Miembro desde {new Date(item.joined_date).toLocaleDateString('es-AR')}</Text>
-        </View>
-        <View style={styles.pointsBadge}>
-          <Text style={styles.pointsNumber}>{item.available_points.toLocaleString()}</Text>
-          <Text style={styles.pointsLabel}>puntos</Text>
+  const renderOrganizationCard = ({ item }: { item: BeneficiaryOrganization }) => {
+    const expiring = nextExpiration(item);
+    const tier = getTierProgress(item);
+    const membershipGoals = goals[item.id] ?? [];
+
+    return (
+      <TouchableOpacity
+        style={styles.orgCard}
+        onPress={() => handleOrganizationPress(item)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.orgCardContent}>
+          {item.organization?.logo_url && (
+            <Image
+              source={{ uri: item.organization.logo_url }}
+              style={styles.orgLogo}
+              resizeMode="contain"
+            />
+          )}
+          <View style={styles.orgInfo}>
+            <View style={styles.orgNameRow}>
+              <Text style={styles.orgName} numberOfLines={1}>{item.organization?.name || 'Organizacion'}</Text>
+              {tier?.current && <TierBadge tier={tier.current} compact />}
+            </View>
+            <Text style={styles.orgSubtext}>Miembro desde {new Date(item.joined_date).toLocaleDateString('es-AR')}</Text>
+            {expiring && isExpiringSoon(expiring) && (
+              <Text style={styles.expiringText}>
+                {expiring.points.toLocaleString()} pts vencen el {formatExpirationDate(expiring.expires_at)}
+              </Text>
+            )}
+            {tier?.next && (
+              <View style={styles.tierProgress}>
+                <View style={styles.tierProgressTrack}>
+                  <View
+                    style={[
+                      styles.tierProgressFill,
+                      { width: `${tier.progress * 100}%`, backgroundColor: tierColor(tier.next) },
+                    ]}
+                  />
+                </View>
+                <Text style={styles.tierProgressText}>
+                  {tier.pointsToNext.toLocaleString()} pts para {tier.next.name}
+                </Text>
+              </View>
+            )}
+            {membershipGoals.slice(0, MAX_CARD_GOALS).map((goal) => (
+              <GoalProgress key={goal.productId} goal={goal} availablePoints={item.available_points} compact />
+            ))}
+            {membershipGoals.length > MAX_CARD_GOALS && (
+              <Text style={styles.moreGoalsText}>
+                y {membershipGoals.length - MAX_CARD_GOALS} metas mas
+              </Text>
+            )}
+          </View>
+          <View style={styles.pointsBadge}>
+            <Text style={styles.pointsNumber}>{item.available_points.toLocaleString()}</Text>
+            <Text style={styles.pointsLabel}>puntos</Text>
+          </View>
         </View>
-      </View>
-    </TouchableOpacity>
-  );
+      </TouchableOpacity>
+    );
+  };
 
   return (
     <View style={styles.container}>
+      <RealtimeStatusBanner />
       {/* QR Code Modal */}
       <Modal
         visible={showQRModal}
@@ -116,7 +192,7 @@ export default function HomeScreen() {
               Mostra este codigo al cajero para acumular puntos
             </Text>
             <View style={styles.qrContainerLarge}>
-              {qrValue && (
+              {qrValue ? (
                 <QRCode
                   value={qrValue}
                   size={250}
@@ -124,12 +200,43 @@ export default function HomeScreen() {
                   bgColor="#FFFFFF"
                   fgColor="#000000"
                 />
+              ) : qrError && !isOffline ? (
+                <View style={styles.qrPlaceholderLarge}>
+                  <ErrorState compact message="No pudimos generar tu codigo QR." onRetry={retryQrToken} />
+                </View>
+              ) : (
+                <View style={styles.qrPlaceholderLarge}>
+                  <ActivityIndicator size="large" color="#7C3AED" />
+                </View>
               )}
             </View>
+            {qrValue !== '' && !isOffline && (
+              <Text style={styles.qrCountdown}>
+                El codigo se renueva en {secondsLeft}s
+              </Text>
+            )}
+            {isOffline && (
+              <Text style={styles.qrOfflineText}>
+                {qrValue
+                  ? 'Sin conexion: codigo guardado, tus puntos se acreditaran al reconectar'
+                  : 'Sin conexion y sin codigos guardados. Conectate para renovarlos.'}
+              </Text>
+            )}
             <Text style={styles.userName}>
               {beneficiary?.first_name} {beneficiary?.last_name}
             </Text>
             <Text style={styles.userEmail}>{beneficiary?.email}</Text>
+            <TouchableOpacity
+              style={styles.walletButton}
+              onPress={handleAddToWallet}
+              disabled={walletLoading}
+            >
+              {walletLoading ? (
+                <ActivityIndicator size="small" color="#7C3AED" />
+              ) : (
+                <Text style={styles.walletButtonText}>Agregar a la billetera</Text>
+              )}
+            </TouchableOpacity>
             <TouchableOpacity
               style={styles.closeButton}
               onPress={() => setShowQRModal(false)}
@@ -141,7 +248,7 @@ export default function HomeScreen() {
       </Modal>
 
       <FlatList
-        data={userOrganizations}
+        data={sortedOrganizations}
         keyExtractor={(item) => item.id.toString()}
         renderItem={renderOrganizationCard}
         refreshControl={
@@ -149,6 +256,21 @@ export default function HomeScreen() {
         }
         ListHeaderComponent={
           <>
+            {isOffline && (
+              <View style={styles.offlineBanner}>
+                <Text style={styles.offlineBannerText}>
+                  Sin conexion. Mostrando tu tarjeta guardada.
+                </Text>
+              </View>
+            )}
+            {!isOffline && serverUnavailable && (
+              <View style={styles.offlineBanner}>
+                <Text style={styles.offlineBannerText}>
+                  No pudimos conectar con el servidor. Mostrando tu tarjeta guardada.
+                </Text>
+              </View>
+            )}
+
             {/* Header Card with QR */}
             <View style={styles.headerCard}>
               <View style={styles.headerTop}>
@@ -163,7 +285,7 @@ export default function HomeScreen() {
                   onPress={() => setShowQRModal(true)}
                   activeOpacity={0.8}
                 >
-                  {qrValue && (
+                  {qrValue ? (
                     <QRCode
                       value={qrValue}
                       size={70}
@@ -171,6 +293,17 @@ export default function HomeScreen() {
                       bgColor="#FFFFFF"
                       fgColor="#000000"
                     />
+                  ) : (
+                    <View style={styles.qrPlaceholderSmall}>
+                      {qrError && !isOffline ? (
+                        <Ionicons name="alert-circle-outline" size={28} color="#9CA3AF" />
+                      ) : (
+                        <ActivityIndicator size="small" color="#7C3AED" />
+                      )}
+                    </View>
+                  )}
+                  {qrValue !== '' && !isOffline && (
+                    <Text style={styles.qrCountdownSmall}>{secondsLeft}s</Text>
                   )}
                 </TouchableOpacity>
               </View>
@@ -184,6 +317,16 @@ export default function HomeScreen() {
                   ? `${userOrganizations.length} organizacion${userOrganizations.length !== 1 ? 'es' : ''}`
                   : 'Aun no perteneces a ninguna'}
               </Text>
+              {userOrganizations.length > 1 && (
+                <TouchableOpacity
+                  style={[styles.sortChip, sortByExpiration && styles.sortChipActive]}
+                  onPress={() => setSortByExpiration((value) => !value)}
+                >
+                  <Text style={[styles.sortChipText, sortByExpiration && styles.sortChipTextActive]}>
+                    Por vencer primero
+                  </Text>
+                </TouchableOpacity>
+              )}
             </View>
 
             {organizationsLoading && userOrganizations.length === 0 && (
@@ -194,7 +337,13 @@ export default function HomeScreen() {
           </>
         }
         ListEmptyComponent={
-          !organizationsLoading ? (
+          !organizationsLoading && organizationsError ? (
+            <ErrorState
+              compact
+              message="No pudimos cargar tus organizaciones."
+              onRetry={refreshOrganizations}
+            />
+          ) : !organizationsLoading ? (
             <View style={styles.emptyContainer}>
               <Text style={styles.emptyText}>
                 No perteneces a ninguna organizacion todavia.
@@ -218,6 +367,38 @@ export default function HomeScreen() {
               <Text style={styles.exploreArrow}>→</Text>
             </TouchableOpacity>
 
+            {/* Rewards Marketplace */}
+            {userOrganizations.length > 0 && (
+              <TouchableOpacity
+                style={styles.receiptCard}
+                onPress={() => router.push('/(app)/rewards')}
+                activeOpacity={0.7}
+              >
+                <View style={styles.exploreContent}>
+                  <Text style={styles.receiptTitle}>Premios</Text>
+                  <Text style={styles.exploreSubtitle}>
+                    Todo lo que puedes canjear en tus organizaciones, en un solo lugar
+                  </Text>
+                </View>
+                <Text style={styles.receiptArrow}>→</Text>
+              </TouchableOpacity>
+            )}
+
+            {/* Receipt Claims */}
+            <TouchableOpacity
+              style={styles.receiptCard}
+              onPress={() => router.push('/(app)/receipt-claims')}
+              activeOpacity={0.7}
+            >
+              <View style={styles.exploreContent}>
+                <Text style={styles.receiptTitle}>Cargar un ticket</Text>
+                <Text style={styles.exploreSubtitle}>
+                  Olvidaste mostrar tu QR? Escanea la factura para sumar tus puntos
+                </Text>
+              </View>
+              <Text style={styles.receiptArrow}>→</Text>
+            </TouchableOpacity>
+
             {/* Account Info */}
             <TouchableOpacity 
               style={styles.infoCard}
@@ -310,6 +491,26 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 4,
   },
+  qrPlaceholderLarge: {
+    width: 250,
+    height: 250,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  qrCountdown: {
+    fontSize: 13,
+    color: '#7C3AED',
+    fontWeight: '600',
+    marginTop: -12,
+    marginBottom: 16,
+  },
+  qrOfflineText: {
+    fontSize: 13,
+    color: '#D97706',
+    textAlign: 'center',
+    marginTop: -12,
+    marginBottom: 16,
+  },
   userName: {
     fontSize: 18,
     fontWeight: '600',
@@ -321,6 +522,16 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     marginBottom: 24,
   },
+  walletButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 10,
+    marginBottom: 8,
+  },
+  walletButtonText: {
+    color: '#7C3AED',
+    fontSize: 15,
+    fontWeight: '600',
+  },
   closeButton: {
     backgroundColor: '#7C3AED',
     paddingHorizontal: 32,
@@ -332,6 +543,19 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  offlineBanner: {
+    backgroundColor: '#FEF3C7',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    marginBottom: 12,
+  },
+  offlineBannerText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#D97706',
+    textAlign: 'center',
+  },
   // Header styles
   headerCard: {
     backgroundColor: '#7C3AED',
@@ -363,6 +587,18 @@ const styles = StyleSheet.create({
     padding: 8,
     borderRadius: 12,
     marginLeft: 16,
+    alignItems: 'center',
+  },
+  qrPlaceholderSmall: {
+    width: 70,
+    height: 70,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  qrCountdownSmall: {
+    fontSize: 10,
+    color: '#6B7280',
+    marginTop: 4,
   },
   sectionHeader: {
     marginBottom: 12,
@@ -406,16 +642,72 @@ const styles = StyleSheet.create({
   orgInfo: {
     flex: 1,
   },
+  orgNameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 4,
+  },
   orgName: {
+    flexShrink: 1,
     fontSize: 16,
     fontWeight: '600',
     color: '#111827',
-    marginBottom: 4,
   },
   orgSubtext: {
     fontSize: 12,
     color: '#6B7280',
   },
+  tierProgress: {
+    marginTop: 6,
+  },
+  tierProgressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#E5E7EB',
+    overflow: 'hidden',
+  },
+  tierProgressFill: {
+    height: '100%',
+    borderRadius: 2,
+  },
+  tierProgressText: {
+    fontSize: 11,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  moreGoalsText: {
+    fontSize: 11,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  expiringText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#D97706',
+    marginTop: 2,
+  },
+  sortChip: {
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginTop: 8,
+  },
+  sortChipActive: {
+    backgroundColor: '#7C3AED',
+    borderColor: '#7C3AED',
+  },
+  sortChipText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  sortChipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
   pointsBadge: {
     backgroundColor: '#7C3AED',
     borderRadius: 8,
@@ -481,6 +773,27 @@ const styles = StyleSheet.create({
     color: '#7C3AED',
     marginLeft: 12,
   },
+  receiptCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  receiptTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  receiptArrow: {
+    fontSize: 24,
+    color: '#6B7280',
+    marginLeft: 12,
+  },
   infoCard: {
     backgroundColor: '#FFFFFF',
     borderRadius: 16,
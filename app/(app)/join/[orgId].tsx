@@ -0,0 +1,221 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Image,
+} from 'react-native';
+import { useLocalSearchParams, router } from 'expo-router';
+import { useAuth } from '../../../contexts/AuthContext';
+import { getOrganization } from '../../../repositories/organizations';
+import type { Organization } from '../../../types';
+
+export default function JoinOrganizationScreen() {
+  const { orgId } = useLocalSearchParams<{ orgId: string }>();
+  const { allOrganizations, userOrganizations, joinOrganization } = useAuth();
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [joining, setJoining] = useState(false);
+
+  const isMember = userOrganizations.some(
+    (org) => org.organization_id.toString() === orgId
+  );
+
+  useEffect(() => {
+    const known = allOrganizations.find((org) => org.id.toString() === orgId);
+    if (known) {
+      setOrganization(known);
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+
+    const fetchOrganization = async () => {
+      const { data, error } = await getOrganization(orgId, { signal: controller.signal });
+      if (error?.kind === 'cancelled') return;
+      setOrganization(data);
+      setLoading(false);
+    };
+
+    fetchOrganization();
+
+    return () => controller.abort();
+  }, [orgId, allOrganizations]);
+
+  const goToOrganization = () => {
+    router.replace({
+      pathname: '/(app)/organization/[id]',
+      params: { id: orgId },
+    });
+  };
+
+  const handleJoin = async () => {
+    if (!organization) return;
+
+    setJoining(true);
+    const { error } = await joinOrganization(organization.id.toString());
+    setJoining(false);
+
+    if (error) {
+      Alert.alert('Error', error.message);
+      return;
+    }
+
+    Alert.alert(
+      'Exito',
+      `Te has unido a ${organization.name}. Ya puedes empezar a acumular puntos!`,
+      [{ text: 'Ver Organizacion', onPress: goToOrganization }]
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#7C3AED" />
+      </View>
+    );
+  }
+
+  if (!organization) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.errorText}>
+          No encontramos esta organizacion. El enlace puede estar vencido o ser incorrecto.
+        </Text>
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => router.replace('/(app)')}>
+          <Text style={styles.secondaryButtonText}>Ir al inicio</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.card}>
+        {organization.logo_url && (
+          <Image
+            source={{ uri: organization.logo_url }}
+            style={styles.logo}
+            resizeMode="contain"
+          />
+        )}
+        <Text style={styles.title}>{organization.name}</Text>
+        {organization.business_name && (
+          <Text style={styles.subtitle}>{organization.business_name}</Text>
+        )}
+        <Text style={styles.description}>
+          {isMember
+            ? 'Ya sos miembro de esta organizacion.'
+            : `Quieres unirte a ${organization.name} para empezar a acumular puntos?`}
+        </Text>
+
+        {isMember ? (
+          <TouchableOpacity style={styles.primaryButton} onPress={goToOrganization}>
+            <Text style={styles.primaryButtonText}>Ver Organizacion</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={[styles.primaryButton, joining && styles.buttonDisabled]}
+            onPress={handleJoin}
+            disabled={joining}
+          >
+            {joining ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={styles.primaryButtonText}>Unirse</Text>
+            )}
+          </TouchableOpacity>
+        )}
+
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => router.replace('/(app)')}>
+          <Text style={styles.secondaryButtonText}>Ahora no</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+    justifyContent: 'center',
+    padding: 16,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+    padding: 20,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  logo: {
+    width: 80,
+    height: 80,
+    borderRadius: 12,
+    marginBottom: 16,
+    backgroundColor: '#F3F4F6',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#111827',
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  description: {
+    fontSize: 16,
+    color: '#374151',
+    textAlign: 'center',
+    marginTop: 16,
+    marginBottom: 24,
+  },
+  primaryButton: {
+    backgroundColor: '#7C3AED',
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignSelf: 'stretch',
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  secondaryButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#6B7280',
+    fontSize: 16,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import {
   View,
   Text,
@@ -9,144 +9,144 @@ import {
   Alert,
   Image,
   FlatList,
-  Dimensions,
+  Share,
+  useWindowDimensions,
 } from 'react-native';
 import { useLocalSearchParams, Stack, router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../../../contexts/AuthContext';
-import { supabase } from '../../../utils/supabase';
-import { RealtimeChannel } from '@supabase/supabase-js';
-import type { Product } from '../../../types';
-
-type ActiveOffer = {
-  id: number;
-  display_name: string;
-  description: string;
-  display_icon: string;
-  display_color: string;
-  rule_type: string;
-  config: { points_per_dollar?: number; percentage?: number };
-  time_start: string | null;
-  time_end: string | null;
-  days_of_week: number[] | null;
-  valid_until: string | null;
-};
+import { buildJoinUrl } from '../../../utils/joinLink';
+import MembershipCard from '../../../components/MembershipCard';
+import ErrorState from '../../../components/ErrorState';
+import RealtimeStatusBanner from '../../../components/RealtimeStatusBanner';
+import TierBadge from '../../../components/TierBadge';
+import GoalProgress from '../../../components/GoalProgress';
+import CatalogFilterBar from '../../../components/CatalogFilterBar';
+import { pinGoal, syncGoalProducts, unpinGoal, useGoalStore } from '../../../stores/goalStore';
+import { addCardToWallet } from '../../../utils/walletPass';
+import { listActiveOffers } from '../../../repositories/offers';
+import { listActiveProducts } from '../../../repositories/products';
+import { setMembershipActive } from '../../../repositories/memberships';
+import { useCachedQuery } from '../../../hooks/useCachedQuery';
+import { CACHE_POLICIES } from '../../../utils/cache';
+import { reportError, trackAction } from '../../../utils/errorReporting';
+import { daysUntil, formatExpirationDate, isExpiringSoon } from '../../../utils/pointsExpiration';
+import { getTierProgress, tierColor } from '../../../utils/tiers';
+import {
+  branchesWithStock,
+  getPreferredBranch,
+  listStockBranches,
+  setPreferredBranch,
+  sortByBranchStock,
+  stockAtBranch,
+  totalStock,
+} from '../../../utils/branchAvailability';
+import {
+  DEFAULT_CATALOG_FILTERS,
+  applyCatalogFilters,
+  getCatalogFilters,
+  isDefaultCatalogFilters,
+  listCategories,
+  setCatalogFilters,
+  type CatalogFilters,
+} from '../../../utils/catalogFilters';
+import type { ActiveOffer, Product } from '../../../types';
 
 const DAY_NAMES = ['Dom', 'Lun', 'Mar', 'Mie', 'Jue', 'Vie', 'Sab'];
 
 export default function OrganizationDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
-  const { userOrganizations, organizationsLoading, beneficiary, refreshOrganizations } = useAuth();
-  const [activeOffers, setActiveOffers] = useState<ActiveOffer[]>([]);
-  const [offersLoading, setOffersLoading] = useState(true);
-  const [products, setProducts] = useState<Product[]>([]);
-  const [productsLoading, setProductsLoading] = useState(true);
+  const {
+    userOrganizations,
+    organizationsLoading,
+    organizationsError,
+    beneficiary,
+    refreshOrganizations,
+  } = useAuth();
   const [unfollowLoading, setUnfollowLoading] = useState(false);
+  const [walletLoading, setWalletLoading] = useState(false);
   const [activeImageIndices, setActiveImageIndices] = useState<Record<string, number>>({});
-  const pointsChannelRef = useRef<RealtimeChannel | null>(null);
+  const { width: windowWidth } = useWindowDimensions();
 
   const membership = userOrganizations.find(
     (org) => org.organization_id.toString() === id
   );
+  const membershipId = membership?.id;
+  const goals = useGoalStore((state) => (membershipId ? state.goals[membershipId] : undefined));
+  const [branchId, setBranchId] = useState<string | null>(null);
+  const [catalogQuery, setCatalogQuery] = useState('');
+  const [catalogFilters, setCatalogFiltersState] = useState<CatalogFilters>(DEFAULT_CATALOG_FILTERS);
 
-  // Set up real-time subscription for points updates
   useEffect(() => {
-    if (beneficiary?.id && id) {
-      const channel = supabase
-        .channel(`org-points-${beneficiary.id}-${id}`)
-        .on(
-          'postgres_changes',
-          {
-            event: '*',
-            schema: 'public',
-            table: 'beneficiary_organization',
-            filter: `beneficiary_id=eq.${beneficiary.id}`,
-          },
-          (payload) => {
-            // Refresh organizations to get updated points
-            refreshOrganizations();
-          }
-        )
-        .subscribe((status) => {
-          if (status === 'SUBSCRIBED') {
-            // Subscribed to points updates
-          }
-        });
+    if (!membershipId) return;
+    let cancelled = false;
+    getPreferredBranch(membershipId).then((stored) => {
+      if (!cancelled) setBranchId(stored);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [membershipId]);
 
-      pointsChannelRef.current = channel;
+  useEffect(() => {
+    if (!id) return;
+    let cancelled = false;
+    getCatalogFilters(id).then((stored) => {
+      if (!cancelled) setCatalogFiltersState(stored);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
 
-      return () => {
-        if (pointsChannelRef.current) {
-          supabase.removeChannel(pointsChannelRef.current);
-          pointsChannelRef.current = null;
-        }
-      };
-    }
-  }, [beneficiary?.id, id, refreshOrganizations]);
+  const handleCatalogFiltersChange = (update: Partial<CatalogFilters>) => {
+    const next = { ...catalogFilters, ...update };
+    setCatalogFiltersState(next);
+    setCatalogFilters(id, next).catch((error) => {
+      reportError(error, 'OrganizationDetail.setCatalogFilters', { level: 'warning' });
+    });
+  };
 
-  const fetchActiveOffers = useCallback(async () => {
-    setOffersLoading(true);
-    try {
-      const { data, error } = await supabase.rpc('get_active_offers', {
-        p_organization_id: parseInt(id),
-        p_branch_id: null,
-        p_check_time: new Date().toISOString(),
-      });
+  const handleClearCatalogFilters = () => {
+    setCatalogQuery('');
+    handleCatalogFiltersChange(DEFAULT_CATALOG_FILTERS);
+  };
 
-      if (error) {
-        setActiveOffers([]);
-      } else if (data) {
-        setActiveOffers(data);
-      } else {
-        setActiveOffers([]);
-      }
-    } catch {
-      setActiveOffers([]);
-    } finally {
-      setOffersLoading(false);
-    }
-  }, [id]);
+  const handleSelectBranch = (nextBranchId: string | null) => {
+    setBranchId(nextBranchId);
+    if (!membershipId) return;
+    setPreferredBranch(membershipId, nextBranchId).catch((error) => {
+      reportError(error, 'OrganizationDetail.setPreferredBranch', { level: 'warning' });
+    });
+  };
 
-  const fetchProducts = useCallback(async () => {
-    setProductsLoading(true);
-    try {
-      const { data, error } = await supabase
-        .from('product')
-        .select(`
-          *,
-          category:category_id(id, name),
-          stock:stock(
-            id,
-            branch_id,
-            quantity,
-            branch:branch(id, name)
-          )
-        `)
-        .eq('organization_id', parseInt(id))
-        .eq('active', true)
-        .order('required_points', { ascending: true });
+  const fetchActiveOffers = useCallback((signal: AbortSignal) => listActiveOffers(id, { signal }), [id]);
+  const fetchProducts = useCallback((signal: AbortSignal) => listActiveProducts(id, { signal }), [id]);
 
-      if (error) {
-        setProducts([]);
-      } else if (data) {
-        setProducts(data);
-      } else {
-        setProducts([]);
-      }
-    } catch {
-      setProducts([]);
-    } finally {
-      setProductsLoading(false);
-    }
-  }, [id]);
+  const {
+    data: activeOffers,
+    loading: offersLoading,
+    error: offersError,
+    refresh: refreshOffers,
+  } = useCachedQuery<ActiveOffer[]>(
+    id ? `offers:${id}` : null,
+    CACHE_POLICIES.offers,
+    fetchActiveOffers
+  );
+  const {
+    data: products,
+    loading: productsLoading,
+    error: productsError,
+    refresh: refreshProducts,
+  } = useCachedQuery<Product[]>(
+    id ? `products:${id}` : null,
+    CACHE_POLICIES.products,
+    fetchProducts
+  );
 
-  // Fetch active offers for this organization
   useEffect(() => {
-    if (id) {
-      fetchActiveOffers();
-      fetchProducts();
-    }
-  }, [id, fetchActiveOffers, fetchProducts]);
+    if (membershipId && products) syncGoalProducts(membershipId, products);
+  }, [membershipId, products]);
 
   const formatTimeRange = (start: string | null, end: string | null) => {
     if (!start && !end) return 'Todo el dia';
@@ -171,14 +171,13 @@ export default function OrganizationDetailScreen() {
           text: 'Dejar de seguir',
           style: 'destructive',
           onPress: async () => {
+            trackAction('unfollowOrganization', { organization_id: id });
             setUnfollowLoading(true);
             try {
-              const { error } = await supabase
-                .from('beneficiary_organization')
-                .update({ is_active: false })
-                .eq('id', membership.id);
+              const { error } = await setMembershipActive(membership.id, false);
 
               if (error) {
+                reportError(error, 'OrganizationDetail.unfollow', { context: { organization_id: id } });
                 Alert.alert(
                   'Error',
                   'No se pudo dejar de seguir la organizacion. Por favor intenta nuevamente.'
@@ -196,7 +195,8 @@ export default function OrganizationDetailScreen() {
                   ]
                 );
               }
-            } catch {
+            } catch (error) {
+              reportError(error, 'OrganizationDetail.unfollow', { context: { organization_id: id } });
               Alert.alert(
                 'Error',
                 'Ocurrio un error inesperado. Por favor intenta nuevamente.'
@@ -239,16 +239,71 @@ export default function OrganizationDetailScreen() {
             headerTitleStyle: { fontWeight: 'bold' },
           }}
         />
-        <View style={styles.errorContainer}>
-          <Text style={styles.errorText}>
-            No se encontro la membresia con esta organizacion.
-          </Text>
-        </View>
+        {organizationsError ? (
+          <ErrorState
+            message="No pudimos cargar tu membresia. Revisa tu conexion e intenta nuevamente."
+            onRetry={refreshOrganizations}
+          />
+        ) : (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>
+              No se encontro la membresia con esta organizacion.
+            </Text>
+          </View>
+        )}
       </>
     );
   }
 
   const organization = membership.organization;
+  const tier = getTierProgress(membership);
+  const currentBenefits = tier?.current?.benefits ?? [];
+  const nextBenefits = tier?.next?.benefits ?? [];
+  const stockBranches = products ? listStockBranches(products) : [];
+  // A remembered branch that no longer carries anything falls back to "Todas"
+  const selectedBranch = stockBranches.find((branch) => branch.id === branchId) ?? null;
+  const categories = products ? listCategories(products) : [];
+  // Same for a remembered category the catalog no longer has
+  const activeCatalogFilters = categories.some((category) => category.id === catalogFilters.categoryId)
+    ? catalogFilters
+    : { ...catalogFilters, categoryId: null };
+  const filteredProducts = products
+    ? applyCatalogFilters(products, activeCatalogFilters, {
+      query: catalogQuery,
+      availablePoints: membership.available_points,
+      branchId: selectedBranch?.id ?? null,
+    })
+    : [];
+  // Grouping by branch stock keeps the chosen order within each group
+  const visibleProducts = selectedBranch
+    ? sortByBranchStock(filteredProducts, selectedBranch.id)
+    : filteredProducts;
+
+  const handleAddToWallet = async () => {
+    if (!beneficiary) return;
+
+    setWalletLoading(true);
+    const { error } = await addCardToWallet({ beneficiary, membership });
+    setWalletLoading(false);
+
+    if (error) {
+      reportError(error, 'OrganizationDetail.addToWallet');
+      Alert.alert('Error', 'No se pudo agregar la tarjeta a tu billetera. Por favor intenta nuevamente.');
+    }
+  };
+
+  const openProduct = (productId: string) => {
+    router.push({
+      pathname: '/(app)/organization/[id]/product/[productId]',
+      params: { id, productId },
+    });
+  };
+
+  const handleShare = () => {
+    Share.share({
+      message: `Sumate a ${organization?.name || 'esta organizacion'} en PuntosClub y empeza a acumular puntos: ${buildJoinUrl(id)}`,
+    }).catch((error) => reportError(error, 'OrganizationDetail.share', { level: 'warning' }));
+  };
 
   return (
     <>
@@ -258,8 +313,14 @@ export default function OrganizationDetailScreen() {
           headerStyle: { backgroundColor: '#7C3AED' },
           headerTintColor: '#FFFFFF',
           headerTitleStyle: { fontWeight: 'bold' },
+          headerRight: () => (
+            <TouchableOpacity onPress={handleShare} style={styles.shareButton}>
+              <Ionicons name="share-social-outline" size={22} color="#FFFFFF" />
+            </TouchableOpacity>
+          ),
         }}
       />
+      <RealtimeStatusBanner />
       <ScrollView style={styles.container} contentContainerStyle={styles.content}>
         {/* Points Card */}
         <View style={styles.pointsCard}>
@@ -269,20 +330,54 @@ export default function OrganizationDetailScreen() {
             <Text style={styles.pointsValue}>
               {membership.available_points.toLocaleString()}
             </Text>
+            {!!membership.held_points && (
+              <Text style={styles.heldPointsText}>
+                + {membership.held_points.toLocaleString()} apartados en canjes pendientes
+              </Text>
+            )}
           </View>
         </View>
 
+        {/* Membership Card */}
+        <MembershipCard
+          membership={membership}
+          holderName={`${beneficiary?.first_name || ''} ${beneficiary?.last_name || ''}`.trim()}
+        />
+        <TouchableOpacity
+          style={[styles.walletButton, walletLoading && styles.walletButtonDisabled]}
+          onPress={handleAddToWallet}
+          disabled={walletLoading}
+        >
+          {walletLoading ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <>
+              <Ionicons name="wallet-outline" size={20} color="#FFFFFF" />
+              <Text style={styles.walletButtonText}>Agregar a la billetera</Text>
+            </>
+          )}
+        </TouchableOpacity>
+
         {/* Stats Card */}
         <View style={styles.statsCard}>
           <View style={styles.statsHeader}>
             <Text style={styles.statsTitle}>Estadisticas</Text>
-            <TouchableOpacity
-              style={styles.historyButton}
-              onPress={() => router.push(`/(app)/organization/${id}/history`)}
-            >
-              <Ionicons name="time-outline" size={18} color="#7C3AED" />
-              <Text style={styles.historyButtonText}>Historial</Text>
-            </TouchableOpacity>
+            <View style={styles.statsActions}>
+              <TouchableOpacity
+                style={styles.historyButton}
+                onPress={() => router.push(`/(app)/organization/${id}/ledger`)}
+              >
+                <Ionicons name="list-outline" size={18} color="#7C3AED" />
+                <Text style={styles.historyButtonText}>Movimientos</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.historyButton}
+                onPress={() => router.push(`/(app)/organization/${id}/history`)}
+              >
+                <Ionicons name="time-outline" size={18} color="#7C3AED" />
+                <Text style={styles.historyButtonText}>Canjes</Text>
+              </TouchableOpacity>
+            </View>
           </View>
           <View style={styles.statsRow}>
             <View style={styles.statItem}>
@@ -301,6 +396,90 @@ export default function OrganizationDetailScreen() {
           </View>
         </View>
 
+        {/* Tier */}
+        {tier && (
+          <View style={styles.infoCard}>
+            <View style={styles.tierHeader}>
+              <Text style={styles.infoTitle}>Tu nivel</Text>
+              {tier.current && <TierBadge tier={tier.current} />}
+            </View>
+            {tier.next ? (
+              <>
+                <View style={styles.tierProgressTrack}>
+                  <View
+                    style={[
+                      styles.tierProgressFill,
+                      { width: `${tier.progress * 100}%`, backgroundColor: tierColor(tier.next) },
+                    ]}
+                  />
+                </View>
+                <Text style={styles.tierProgressText}>
+                  Te faltan {tier.pointsToNext.toLocaleString()} pts para llegar a {tier.next.name}
+                  {organization?.tier_basis === 'rolling_12_months' ? ' (puntos de los ultimos 12 meses)' : ''}
+                </Text>
+              </>
+            ) : (
+              <Text style={styles.tierProgressText}>Alcanzaste el nivel mas alto</Text>
+            )}
+            {currentBenefits.length > 0 && (
+              <View style={styles.tierBenefits}>
+                <Text style={styles.tierBenefitsTitle}>Tus beneficios</Text>
+                {currentBenefits.map((benefit) => (
+                  <View key={benefit} style={styles.tierBenefitRow}>
+                    <Ionicons name="checkmark-circle" size={16} color={tierColor(tier.current)} />
+                    <Text style={styles.tierBenefitText}>{benefit}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+            {tier.next && nextBenefits.length > 0 && (
+              <View style={styles.tierBenefits}>
+                <Text style={styles.tierBenefitsTitle}>Con {tier.next.name} sumas</Text>
+                {nextBenefits.map((benefit) => (
+                  <View key={benefit} style={styles.tierBenefitRow}>
+                    <Ionicons name="lock-closed-outline" size={16} color="#9CA3AF" />
+                    <Text style={[styles.tierBenefitText, styles.tierBenefitLocked]}>{benefit}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+          </View>
+        )}
+
+        {/* Points Expiration */}
+        {membership.expiring_points && membership.expiring_points.length > 0 && (
+          <View style={styles.infoCard}>
+            <Text style={styles.infoTitle}>Vencimiento de puntos</Text>
+            {membership.expiring_points.map((bucket) => (
+              <View key={bucket.expires_at} style={styles.infoRow}>
+                <Text style={[styles.infoLabel, isExpiringSoon(bucket) && styles.expiringSoonText]}>
+                  {formatExpirationDate(bucket.expires_at)}
+                  {isExpiringSoon(bucket) ? ` · en ${daysUntil(bucket.expires_at)} dias` : ''}
+                </Text>
+                <Text style={[styles.infoValue, isExpiringSoon(bucket) && styles.expiringSoonText]}>
+                  {bucket.points.toLocaleString()} pts
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* Savings Goals */}
+        {goals && goals.length > 0 && (
+          <View style={styles.infoCard}>
+            <Text style={styles.infoTitle}>Tus metas</Text>
+            {goals.map((goal) => (
+              <TouchableOpacity key={goal.productId} activeOpacity={0.7} onPress={() => openProduct(goal.productId)}>
+                <GoalProgress
+                  goal={goal}
+                  availablePoints={membership.available_points}
+                  onRemove={() => unpinGoal(membership.id, goal.productId)}
+                />
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
         {/* Membership Info */}
         <View style={styles.infoCard}>
           <Text style={styles.infoTitle}>Informacion de membresia</Text>
@@ -361,7 +540,13 @@ export default function OrganizationDetailScreen() {
             <ActivityIndicator size="small" color="#7C3AED" />
             <Text style={styles.offersLoadingText}>Cargando promociones...</Text>
           </View>
-        ) : activeOffers.length > 0 ? (
+        ) : !activeOffers && offersError ? (
+          <ErrorState
+            compact
+            message="No pudimos cargar las promociones."
+            onRetry={refreshOffers}
+          />
+        ) : activeOffers && activeOffers.length > 0 ? (
           <View style={styles.offersCard}>
             <Text style={styles.offersTitle}>Promociones Activas</Text>
             {activeOffers.map((offer) => (
@@ -398,13 +583,56 @@ export default function OrganizationDetailScreen() {
           <Text style={styles.productsSubtitle}>
             Canjea tus puntos por estos productos
           </Text>
-          
+
+          {stockBranches.length > 1 && (
+            <View style={styles.branchSelector}>
+              <Text style={styles.branchSelectorLabel}>Tu sucursal</Text>
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.branchChips}
+              >
+                {[{ id: null, name: 'Todas' }, ...stockBranches].map((branch) => {
+                  const selected = (selectedBranch?.id ?? null) === branch.id;
+                  return (
+                    <TouchableOpacity
+                      key={branch.id ?? 'all'}
+                      style={[styles.branchChip, selected && styles.branchChipActive]}
+                      onPress={() => handleSelectBranch(branch.id)}
+                    >
+                      <Text style={[styles.branchChipText, selected && styles.branchChipTextActive]}>
+                        {branch.name}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+            </View>
+          )}
+
+          {products && products.length > 0 && (
+            <CatalogFilterBar
+              query={catalogQuery}
+              onQueryChange={setCatalogQuery}
+              filters={activeCatalogFilters}
+              onFiltersChange={handleCatalogFiltersChange}
+              categories={categories}
+              branchName={selectedBranch?.name}
+            />
+          )}
+
           {productsLoading ? (
             <View style={styles.productsLoadingContainer}>
               <ActivityIndicator size="small" color="#7C3AED" />
               <Text style={styles.productsLoadingText}>Cargando productos...</Text>
             </View>
-          ) : products.length === 0 ? (
+          ) : !products && productsError ? (
+            <ErrorState
+              compact
+              message="No pudimos cargar los productos."
+              onRetry={refreshProducts}
+            />
+          ) : !products || products.length === 0 ? (
             <View style={styles.emptyProductsContainer}>
               <Text style={styles.emptyProductsText}>🎁</Text>
               <Text style={styles.emptyProductsTitle}>No hay productos disponibles</Text>
@@ -412,15 +640,32 @@ export default function OrganizationDetailScreen() {
                 Pronto habra productos para canjear con tus puntos
               </Text>
             </View>
+          ) : visibleProducts.length === 0 ? (
+            <View style={styles.emptyProductsContainer}>
+              <Text style={styles.emptyProductsText}>🔍</Text>
+              <Text style={styles.emptyProductsTitle}>Ningun producto coincide</Text>
+              <Text style={styles.emptyProductsSubtitle}>
+                Prueba con otra busqueda, sucursal o filtro
+              </Text>
+              {(catalogQuery.length > 0 || !isDefaultCatalogFilters(activeCatalogFilters)) && (
+                <TouchableOpacity style={styles.clearFiltersButton} onPress={handleClearCatalogFilters}>
+                  <Text style={styles.clearFiltersText}>Limpiar filtros</Text>
+                </TouchableOpacity>
+              )}
+            </View>
           ) : (
             <View style={styles.productsList}>
-              {products.map((product) => {
-                const totalStock = product.stock?.reduce(
-                  (sum, s) => sum + (s.quantity || 0),
-                  0
-                ) || 0;
+              {visibleProducts.map((product) => {
+                const productStock = totalStock(product);
+                const branchStock = selectedBranch ? stockAtBranch(product, selectedBranch.id) : productStock;
                 const canAfford = membership.available_points >= product.required_points;
-                const inStock = totalStock > 0;
+                const inStock = productStock > 0;
+                const inStockAtBranch = branchStock > 0;
+                const otherBranches = branchesWithStock(product, selectedBranch?.id);
+                const isGoal = !!goals?.some((goal) => goal.productId === product.id);
+                const availableBranches = inStockAtBranch && selectedBranch
+                  ? [selectedBranch.name, ...otherBranches]
+                  : otherBranches;
 
                 return (
                   <View
@@ -437,12 +682,12 @@ export default function OrganizationDetailScreen() {
                           horizontal
                           pagingEnabled
                           showsHorizontalScrollIndicator={false}
-                          snapToInterval={Dimensions.get('window').width - 64}
+                          snapToInterval={windowWidth - 64}
                           decelerationRate="fast"
                           onScroll={(event) => {
                             const slideIndex = Math.round(
                               event.nativeEvent.contentOffset.x /
-                              (Dimensions.get('window').width - 64)
+                              (windowWidth - 64)
                             );
                             setActiveImageIndices(prev => ({
                               ...prev,
@@ -451,11 +696,16 @@ export default function OrganizationDetailScreen() {
                           }}
                           scrollEventThrottle={16}
                           renderItem={({ item }) => (
-                            <Image
-                              source={{ uri: item }}
-                              style={styles.productImage}
-                              resizeMode="cover"
-                            />
+                            <TouchableOpacity
+                              activeOpacity={0.9}
+                              onPress={() => openProduct(product.id)}
+                            >
+                              <Image
+                                source={{ uri: item }}
+                                style={[styles.productImage, { width: windowWidth - 64 }]}
+                                resizeMode="cover"
+                              />
+                            </TouchableOpacity>
                           )}
                           keyExtractor={(item, index) => `${product.id}-image-${index}`}
                         />
@@ -474,51 +724,94 @@ export default function OrganizationDetailScreen() {
                         )}
                       </View>
                     )}
-                    <View style={styles.productHeader}>
-                      <View style={styles.productInfo}>
-                        <Text style={styles.productName}>{product.name}</Text>
-                        {product.category && (
-                          <Text style={styles.productCategory}>
-                            {product.category.name}
+                    <TouchableOpacity
+                      activeOpacity={0.7}
+                      onPress={() => openProduct(product.id)}
+                    >
+                      <View style={styles.productHeader}>
+                        <View style={styles.productInfo}>
+                          <Text style={styles.productName}>{product.name}</Text>
+                          {product.category && (
+                            <Text style={styles.productCategory}>
+                              {product.category.name}
+                            </Text>
+                          )}
+                        </View>
+                        <View style={styles.productPoints}>
+                          <Text style={styles.productPointsValue}>
+                            {product.required_points.toLocaleString()}
                           </Text>
-                        )}
+                          <Text style={styles.productPointsLabel}>pts</Text>
+                        </View>
                       </View>
-                      <View style={styles.productPoints}>
-                        <Text style={styles.productPointsValue}>
-                          {product.required_points.toLocaleString()}
+
+                      {product.description && (
+                        <Text style={styles.productDescription} numberOfLines={2}>
+                          {product.description}
                         </Text>
-                        <Text style={styles.productPointsLabel}>pts</Text>
-                      </View>
-                    </View>
-                    
-                    {product.description && (
-                      <Text style={styles.productDescription} numberOfLines={2}>
-                        {product.description}
+                      )}
+                    </TouchableOpacity>
+
+                    {selectedBranch && !inStockAtBranch && inStock ? (
+                      <Text style={styles.branchAvailabilityElsewhere}>
+                        Sin stock en tu sucursal, disponible en {otherBranches.join(', ')}
+                      </Text>
+                    ) : availableBranches.length > 0 && (
+                      <Text style={styles.branchAvailability}>
+                        Disponible en {availableBranches.join(', ')}
                       </Text>
                     )}
-                    
+
                     <View style={styles.productFooter}>
                       <View
                         style={[
                           styles.stockBadge,
-                          inStock ? styles.stockBadgeInStock : styles.stockBadgeOutOfStock,
+                          inStockAtBranch ? styles.stockBadgeInStock : styles.stockBadgeOutOfStock,
                         ]}
                       >
                         <Text
                           style={[
                             styles.stockBadgeText,
-                            inStock ? styles.stockBadgeTextInStock : styles.stockBadgeTextOutOfStock,
+                            inStockAtBranch ? styles.stockBadgeTextInStock : styles.stockBadgeTextOutOfStock,
                           ]}
                         >
-                          {inStock ? `${totalStock} disponibles` : 'Sin stock'}
+                          {!selectedBranch
+                            ? inStock ? `${productStock} disponibles` : 'Sin stock'
+                            : inStockAtBranch ? `${branchStock} en tu sucursal` : 'Sin stock aca'}
                         </Text>
                       </View>
-                      
+
+                      {(!canAfford || isGoal) && (
+                        <TouchableOpacity
+                          style={[styles.goalButton, isGoal && styles.goalButtonActive]}
+                          onPress={() => (isGoal ? unpinGoal(membership.id, product.id) : pinGoal(membership, product))}
+                          accessibilityLabel={isGoal ? 'Quitar meta' : 'Fijar como meta'}
+                        >
+                          <Ionicons name={isGoal ? 'flag' : 'flag-outline'} size={14} color="#7C3AED" />
+                          <Text style={styles.goalButtonText}>{isGoal ? 'Meta' : 'Fijar meta'}</Text>
+                        </TouchableOpacity>
+                      )}
                       {!canAfford && inStock && (
                         <Text style={styles.insufficientPointsText}>
                           Te faltan {(product.required_points - membership.available_points).toLocaleString()} pts
                         </Text>
                       )}
+                      {canAfford && inStock && (
+                        <TouchableOpacity
+                          style={styles.redeemButton}
+                          onPress={() => router.push({
+                            pathname: '/(app)/organization/[id]/redeem/[productId]',
+                            params: {
+                              id,
+                              productId: product.id,
+                              ...(selectedBranch && inStockAtBranch && { branchId: selectedBranch.id }),
+                            },
+                          })}
+                        >
+                          <Ionicons name="gift-outline" size={16} color="#FFFFFF" />
+                          <Text style={styles.redeemButtonText}>Canjear</Text>
+                        </TouchableOpacity>
+                      )}
                     </View>
                   </View>
                 );
@@ -570,6 +863,10 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     backgroundColor: '#F9FAFB',
   },
+  shareButton: {
+    marginRight: 12,
+    padding: 4,
+  },
   errorContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -610,6 +907,25 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#FFFFFF',
   },
+  walletButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#111827',
+    borderRadius: 12,
+    padding: 14,
+    marginTop: -4,
+    marginBottom: 16,
+    gap: 8,
+  },
+  walletButtonDisabled: {
+    opacity: 0.6,
+  },
+  walletButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
   statsCard: {
     backgroundColor: '#FFFFFF',
     borderRadius: 16,
@@ -632,6 +948,10 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#374151',
   },
+  statsActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   historyButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -698,6 +1018,53 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#6B7280',
   },
+  tierHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  tierProgressTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#E5E7EB',
+    overflow: 'hidden',
+    marginBottom: 8,
+  },
+  tierProgressFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  tierProgressText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  tierBenefits: {
+    marginTop: 16,
+    gap: 6,
+  },
+  tierBenefitsTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 2,
+  },
+  tierBenefitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  tierBenefitText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+  },
+  tierBenefitLocked: {
+    color: '#9CA3AF',
+  },
+  expiringSoonText: {
+    color: '#D97706',
+    fontWeight: '600',
+  },
   infoValue: {
     fontSize: 14,
     color: '#111827',
@@ -902,7 +1269,6 @@ const styles = StyleSheet.create({
     position: 'relative',
   },
   productImage: {
-    width: Dimensions.get('window').width - 64,
     height: 180,
     borderRadius: 8,
     backgroundColor: '#E5E7EB',
@@ -977,6 +1343,62 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'space-between',
   },
+  branchSelector: {
+    marginBottom: 12,
+  },
+  branchSelectorLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  branchChips: {
+    gap: 8,
+    paddingBottom: 4,
+  },
+  branchChip: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  branchChipActive: {
+    backgroundColor: '#7C3AED',
+    borderColor: '#7C3AED',
+  },
+  branchChipText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  branchChipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  clearFiltersButton: {
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: '#7C3AED',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  clearFiltersText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#7C3AED',
+  },
+  branchAvailability: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 8,
+  },
+  branchAvailabilityElsewhere: {
+    fontSize: 12,
+    color: '#D97706',
+    fontWeight: '500',
+    marginBottom: 8,
+  },
   stockBadge: {
     paddingHorizontal: 10,
     paddingVertical: 4,
@@ -998,6 +1420,43 @@ const styles = StyleSheet.create({
   stockBadgeTextOutOfStock: {
     color: '#DC2626',
   },
+  redeemButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#7C3AED',
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    gap: 6,
+  },
+  redeemButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  heldPointsText: {
+    fontSize: 12,
+    color: '#E9D5FF',
+    marginTop: 4,
+  },
+  goalButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#C4B5FD',
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    gap: 4,
+  },
+  goalButtonActive: {
+    backgroundColor: '#EDE9FE',
+  },
+  goalButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#7C3AED',
+  },
   insufficientPointsText: {
     fontSize: 12,
     color: '#DC2626',
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   View,
   Text,
@@ -7,10 +7,23 @@ import {
   ActivityIndicator,
   RefreshControl,
   Image,
+  TouchableOpacity,
 } from 'react-native';
-import { useLocalSearchParams, Stack } from 'expo-router';
+import { useLocalSearchParams, Stack, router } from 'expo-router';
 import { useAuth } from '../../../../contexts/AuthContext';
-import { supabase } from '../../../../utils/supabase';
+import ErrorState from '../../../../components/ErrorState';
+import { reportError } from '../../../../utils/errorReporting';
+import { subscribeToTable } from '../../../../utils/realtime';
+import {
+  displayedRedemptionStatus,
+  getRedemptionStatusMeta,
+  isRedemptionRefunded,
+} from '../../../../utils/redemptionVoucher';
+import {
+  countRedemptions,
+  listRedemptions,
+  type RedemptionCursor,
+} from '../../../../repositories/redemptions';
 import type { Redemption } from '../../../../types';
 
 export default function RedemptionHistoryScreen() {
@@ -19,6 +32,16 @@ export default function RedemptionHistoryScreen() {
   const [redemptions, setRedemptions] = useState<Redemption[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadError, setLoadError] = useState<Error | null>(null);
+  const [totalCount, setTotalCount] = useState<number | null>(null);
+  // onEndReached can fire several times before the state update lands
+  const loadingMoreRef = useRef(false);
+  // Cursor of the page after the last one shown. A page whose cursor no
+  // longer matches, because a refresh replaced the list, is dropped.
+  const nextCursorRef = useRef<RedemptionCursor | null>(null);
+  // Aborted by the next full load and on unmount
+  const requestRef = useRef<AbortController | null>(null);
 
   const membership = userOrganizations.find(
     (org) => org.organization_id.toString() === id
@@ -27,75 +50,74 @@ export default function RedemptionHistoryScreen() {
   const fetchRedemptions = useCallback(async () => {
     if (!beneficiary?.id || !id) return;
 
-    try {
-      const { data, error } = await supabase
-        .from('redemption')
-        .select(`
-          id,
-          beneficiary_id,
-          product_id,
-          points_used,
-          quantity,
-          redemption_date,
-          product:product_id(
-            id,
-            name,
-            description,
-            required_points,
-            organization_id,
-            image_urls,
-            category:category_id(id, name)
-          )
-        `)
-        .eq('beneficiary_id', beneficiary.id)
-        .order('redemption_date', { ascending: false });
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    nextCursorRef.current = null;
 
-      if (error) {
-        setRedemptions([]);
-      } else if (data) {
-        const filteredData = data.filter((r: any) => 
-          r.product && r.product.organization_id && r.product.organization_id.toString() === id
-        );
-        
-        const mappedData = filteredData.map((r: any) => {
-          return {
-            id: r.id,
-            beneficiary_id: r.beneficiary_id,
-            product_id: r.product_id,
-            organization_id: id,
-            points_redeemed: r.points_used,
-            status: 'completed',
-            redeemed_by: null,
-            redeemed_at: r.redemption_date,
-            product: r.product ? {
-              id: r.product.id,
-              category_id: r.product.category?.[0]?.id || '',
-              name: r.product.name,
-              description: r.product.description,
-              required_points: r.product.required_points,
-              active: true,
-              creation_date: '',
-              image_urls: r.product.image_urls,
-              category: r.product.category?.[0] || undefined,
-            } : undefined,
-          };
-        });
-        setRedemptions(mappedData);
-      } else {
-        setRedemptions([]);
-      }
-    } catch {
-      setRedemptions([]);
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
+    const [page, count] = await Promise.all([
+      listRedemptions(beneficiary.id, id, { signal: controller.signal }),
+      countRedemptions(beneficiary.id, id, { signal: controller.signal }),
+    ]);
+    if (controller.signal.aborted) return;
+
+    if (page.error) reportError(page.error, 'RedemptionHistory.fetchRedemptions');
+    setLoadError(page.error);
+    setRedemptions(page.data?.items ?? []);
+    nextCursorRef.current = page.data?.nextCursor ?? null;
+    setTotalCount(count.data);
+    setLoading(false);
+    setRefreshing(false);
+  }, [beneficiary?.id, id]);
+
+  const fetchNextPage = useCallback(async () => {
+    const cursor = nextCursorRef.current;
+    const controller = requestRef.current;
+    if (!beneficiary?.id || !id || !cursor || !controller || loadingMoreRef.current) return;
+
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    const { data, error } = await listRedemptions(beneficiary.id, id, { cursor, signal: controller.signal });
+    loadingMoreRef.current = false;
+    setLoadingMore(false);
+    if (controller.signal.aborted || nextCursorRef.current !== cursor) return;
+
+    if (error) reportError(error, 'RedemptionHistory.fetchNextPage');
+    if (data) {
+      setRedemptions((prev) => [...prev, ...data.items]);
+      nextCursorRef.current = data.nextCursor;
     }
-  }, [beneficiary, id]);
+  }, [beneficiary?.id, id]);
 
   useEffect(() => {
     fetchRedemptions();
   }, [fetchRedemptions]);
 
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  // Status changes made by the store show up without pulling to refresh
+  useEffect(() => {
+    if (!beneficiary?.id) return;
+
+    return subscribeToTable(
+      { table: 'redemption', filter: `beneficiary_id=eq.${beneficiary.id}`, event: 'UPDATE' },
+      {
+        onChange: (payload) => {
+          if (payload.eventType !== 'UPDATE') return;
+          const row = payload.new;
+          setRedemptions((prev) =>
+            prev.map((redemption) =>
+              redemption.id === row.id
+                ? { ...redemption, status: row.status, redeemed_by: row.redeemed_by, expires_at: row.expires_at }
+                : redemption
+            )
+          );
+        },
+        onResync: () => fetchRedemptions(),
+      }
+    );
+  }, [beneficiary?.id, fetchRedemptions]);
+
   const onRefresh = useCallback(() => {
     setRefreshing(true);
     fetchRedemptions();
@@ -131,60 +153,65 @@ export default function RedemptionHistoryScreen() {
     });
   };
 
-  const renderRedemptionItem = ({ item }: { item: Redemption }) => (
-    <View style={styles.redemptionCard}>
-      <View style={styles.redemptionHeader}>
-        {item.product?.image_urls && item.product.image_urls.length > 0 && (
-          <Image
-            source={{ uri: item.product.image_urls[0] }}
-            style={styles.productImage}
-            resizeMode="cover"
-          />
-        )}
-        <View style={styles.productInfo}>
-          <Text style={styles.productName}>
-            {item.product?.name || 'Producto eliminado'}
-          </Text>
-          {item.product?.category && (
-            <Text style={styles.productCategory}>
-              {item.product.category.name}
-            </Text>
+  const renderRedemptionItem = ({ item }: { item: Redemption }) => {
+    // Same status the voucher screen shows, e.g. expired before the server catches up
+    const status = displayedRedemptionStatus(item);
+    const statusMeta = getRedemptionStatusMeta(status);
+
+    return (
+      <TouchableOpacity
+        style={styles.redemptionCard}
+        activeOpacity={0.7}
+        onPress={() => router.push({
+          pathname: '/(app)/redemption/[redemptionId]',
+          params: { redemptionId: item.id },
+        })}
+      >
+        <View style={styles.redemptionHeader}>
+          {item.product?.image_urls && item.product.image_urls.length > 0 && (
+            <Image
+              source={{ uri: item.product.image_urls[0] }}
+              style={styles.productImage}
+              resizeMode="cover"
+            />
           )}
+          <View style={styles.productInfo}>
+            <Text style={styles.productName}>
+              {item.product?.name || 'Producto eliminado'}
+            </Text>
+            {item.product?.category && (
+              <Text style={styles.productCategory}>
+                {item.product.category.name}
+              </Text>
+            )}
+          </View>
+          <View style={styles.pointsBadge}>
+            <Text style={[styles.pointsText, isRedemptionRefunded(status) && styles.pointsRefunded]}>
+              -{item.points_redeemed.toLocaleString()}
+            </Text>
+            <Text style={styles.pointsLabel}>
+              {isRedemptionRefunded(status) ? 'devueltos' : 'pts'}
+            </Text>
+          </View>
         </View>
-        <View style={styles.pointsBadge}>
-          <Text style={styles.pointsText}>
-            -{item.points_redeemed.toLocaleString()}
-          </Text>
-          <Text style={styles.pointsLabel}>pts</Text>
-        </View>
-      </View>
-      
-      {item.product?.description && (
-        <Text style={styles.productDescription} numberOfLines={2}>
-          {item.product.description}
-        </Text>
-      )}
-      
-      <View style={styles.redemptionFooter}>
-        <Text style={styles.dateText}>{formatDate(item.redeemed_at)}</Text>
-        <View
-          style={[
-            styles.statusBadge,
-            item.status === 'completed' ? styles.statusCompleted : styles.statusPending,
-          ]}
-        >
-          <Text
-            style={[
-              styles.statusText,
-              item.status === 'completed' ? styles.statusTextCompleted : styles.statusTextPending,
-            ]}
-          >
-            {item.status === 'completed' ? 'Completado' : 'Pendiente'}
+
+        {item.product?.description && (
+          <Text style={styles.productDescription} numberOfLines={2}>
+            {item.product.description}
           </Text>
+        )}
+
+        <View style={styles.redemptionFooter}>
+          <Text style={styles.dateText}>{formatDate(item.redeemed_at)}</Text>
+          <View style={[styles.statusBadge, { backgroundColor: statusMeta.background }]}>
+            <Text style={[styles.statusText, { color: statusMeta.color }]}>
+              {statusMeta.label}
+            </Text>
+          </View>
         </View>
-      </View>
-    </View>
-  );
+      </TouchableOpacity>
+    );
+  };
 
   if (loading) {
     return (
@@ -223,13 +250,21 @@ export default function RedemptionHistoryScreen() {
               {membership.total_points_redeemed.toLocaleString()} pts
             </Text>
             <Text style={styles.summarySubtitle}>
-              {redemptions.length} {redemptions.length === 1 ? 'canje' : 'canjes'} realizados
+              {totalCount ?? redemptions.length} {(totalCount ?? redemptions.length) === 1 ? 'canje' : 'canjes'} realizados
             </Text>
           </View>
         )}
 
         {/* Redemptions List */}
-        {redemptions.length === 0 ? (
+        {redemptions.length === 0 && loadError ? (
+          <ErrorState
+            message="No pudimos cargar tus canjes. Revisa tu conexion e intenta nuevamente."
+            onRetry={() => {
+              setLoading(true);
+              fetchRedemptions();
+            }}
+          />
+        ) : redemptions.length === 0 ? (
           <View style={styles.emptyContainer}>
             <Text style={styles.emptyIcon}>🎁</Text>
             <Text style={styles.emptyTitle}>Sin canjes aún</Text>
@@ -243,6 +278,13 @@ export default function RedemptionHistoryScreen() {
             keyExtractor={(item) => item.id}
             renderItem={renderRedemptionItem}
             contentContainerStyle={styles.listContent}
+            onEndReached={fetchNextPage}
+            onEndReachedThreshold={0.5}
+            ListFooterComponent={
+              loadingMore ? (
+                <ActivityIndicator style={styles.listFooter} color="#7C3AED" />
+              ) : null
+            }
             refreshControl={
               <RefreshControl
                 refreshing={refreshing}
@@ -292,6 +334,9 @@ const styles = StyleSheet.create({
   listContent: {
     padding: 16,
   },
+  listFooter: {
+    paddingVertical: 16,
+  },
   redemptionCard: {
     backgroundColor: '#FFFFFF',
     borderRadius: 12,
@@ -342,6 +387,10 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#DC2626',
   },
+  pointsRefunded: {
+    color: '#9CA3AF',
+    textDecorationLine: 'line-through',
+  },
   pointsLabel: {
     fontSize: 12,
     color: '#6B7280',
@@ -366,22 +415,10 @@ const styles = StyleSheet.create({
     paddingVertical: 4,
     borderRadius: 8,
   },
-  statusCompleted: {
-    backgroundColor: '#D1FAE5',
-  },
-  statusPending: {
-    backgroundColor: '#FEF3C7',
-  },
   statusText: {
     fontSize: 12,
     fontWeight: '600',
   },
-  statusTextCompleted: {
-    color: '#059669',
-  },
-  statusTextPending: {
-    color: '#D97706',
-  },
   emptyContainer: {
     flex: 1,
     justifyContent: 'center',
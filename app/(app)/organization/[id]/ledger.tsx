@@ -0,0 +1,328 @@
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  ActivityIndicator,
+  RefreshControl,
+  TouchableOpacity,
+} from 'react-native';
+import { useLocalSearchParams, Stack, router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '../../../../contexts/AuthContext';
+import ErrorState from '../../../../components/ErrorState';
+import { reportError } from '../../../../utils/errorReporting';
+import { listLedgerEntries, type LedgerCursor } from '../../../../repositories/pointsLedger';
+import { formatPointsDelta, getLedgerEntryMeta, withRunningBalance } from '../../../../utils/pointsLedger';
+import type { PointsLedgerEntry } from '../../../../types';
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleString('es-AR', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'America/Argentina/Buenos_Aires',
+  });
+
+export default function PointsLedgerScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { userOrganizations, beneficiary } = useAuth();
+  const [entries, setEntries] = useState<PointsLedgerEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadError, setLoadError] = useState<Error | null>(null);
+  const loadingMoreRef = useRef(false);
+  // Cursor of the page after the last one shown. A page whose cursor no
+  // longer matches, because a refresh replaced the list, is dropped.
+  const nextCursorRef = useRef<LedgerCursor | null>(null);
+  // Aborted by the next full load and on unmount
+  const requestRef = useRef<AbortController | null>(null);
+
+  const membership = userOrganizations.find(
+    (org) => org.organization_id.toString() === id
+  );
+
+  const rows = useMemo(
+    () => withRunningBalance(entries, {
+      available_points: membership?.available_points ?? 0,
+      held_points: membership?.held_points,
+    }),
+    [entries, membership?.available_points, membership?.held_points]
+  );
+
+  const fetchEntries = useCallback(async () => {
+    if (!beneficiary?.id || !id) return;
+
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    nextCursorRef.current = null;
+
+    const { data, error } = await listLedgerEntries(beneficiary.id, id, { signal: controller.signal });
+    if (controller.signal.aborted) return;
+
+    if (error) reportError(error, 'PointsLedger.fetchEntries');
+    setLoadError(error);
+    setEntries(data?.items ?? []);
+    nextCursorRef.current = data?.nextCursor ?? null;
+    setLoading(false);
+    setRefreshing(false);
+  }, [beneficiary?.id, id]);
+
+  const fetchNextPage = useCallback(async () => {
+    const cursor = nextCursorRef.current;
+    const controller = requestRef.current;
+    if (!beneficiary?.id || !id || !cursor || !controller || loadingMoreRef.current) return;
+
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    const { data, error } = await listLedgerEntries(beneficiary.id, id, { cursor, signal: controller.signal });
+    loadingMoreRef.current = false;
+    setLoadingMore(false);
+    if (controller.signal.aborted || nextCursorRef.current !== cursor) return;
+
+    if (error) reportError(error, 'PointsLedger.fetchNextPage');
+    if (data) {
+      setEntries((prev) => [...prev, ...data.items]);
+      nextCursorRef.current = data.nextCursor;
+    }
+  }, [beneficiary?.id, id]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const renderEntry = ({ item: { entry, balanceAfter } }: { item: { entry: PointsLedgerEntry; balanceAfter: number } }) => {
+    const meta = getLedgerEntryMeta(entry.entry_type);
+    const title = entry.entry_type === 'redemption'
+      ? entry.product?.name || meta.label
+      : entry.description || meta.label;
+
+    return (
+      <TouchableOpacity
+        style={styles.entryCard}
+        onPress={() => router.push(`/(app)/organization/${id}/ledger/${entry.id}`)}
+      >
+        <View style={[styles.entryIcon, { backgroundColor: meta.background }]}>
+          <Ionicons name={meta.icon} size={20} color={meta.color} />
+        </View>
+        <View style={styles.entryInfo}>
+          <Text style={styles.entryTitle} numberOfLines={1}>{title}</Text>
+          <Text style={styles.entryMeta}>
+            {meta.label}
+            {entry.branch ? ` · ${entry.branch.name}` : ''}
+          </Text>
+          <Text style={styles.entryDate}>{formatDate(entry.occurred_at)}</Text>
+        </View>
+        <View style={styles.entryAmounts}>
+          <Text style={[styles.entryPoints, { color: entry.points >= 0 ? '#059669' : '#DC2626' }]}>
+            {formatPointsDelta(entry.points)}
+          </Text>
+          <Text style={styles.entryBalance}>Saldo {balanceAfter.toLocaleString()}</Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const screenOptions = (
+    <Stack.Screen
+      options={{
+        title: 'Movimientos',
+        headerStyle: { backgroundColor: '#7C3AED' },
+        headerTintColor: '#FFFFFF',
+        headerTitleStyle: { fontWeight: 'bold' },
+      }}
+    />
+  );
+
+  if (loading) {
+    return (
+      <>
+        {screenOptions}
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#7C3AED" />
+        </View>
+      </>
+    );
+  }
+
+  return (
+    <>
+      {screenOptions}
+      <View style={styles.container}>
+        {membership && (
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryTitle}>Saldo actual</Text>
+            <Text style={styles.summaryValue}>
+              {membership.available_points.toLocaleString()} pts
+            </Text>
+            <Text style={styles.summarySubtitle}>
+              Ganados {membership.total_points_earned.toLocaleString()} · Canjeados{' '}
+              {membership.total_points_redeemed.toLocaleString()}
+            </Text>
+          </View>
+        )}
+
+        {rows.length === 0 && loadError ? (
+          <ErrorState
+            message="No pudimos cargar tus movimientos. Revisa tu conexion e intenta nuevamente."
+            onRetry={() => {
+              setLoading(true);
+              fetchEntries();
+            }}
+          />
+        ) : rows.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Ionicons name="receipt-outline" size={64} color="#D1D5DB" />
+            <Text style={styles.emptyTitle}>Sin movimientos aún</Text>
+            <Text style={styles.emptySubtitle}>
+              Tus compras, canjes y ajustes de puntos aparecerán aquí
+            </Text>
+          </View>
+        ) : (
+          <FlatList
+            data={rows}
+            keyExtractor={(item) => item.entry.id}
+            renderItem={renderEntry}
+            contentContainerStyle={styles.listContent}
+            onEndReached={fetchNextPage}
+            onEndReachedThreshold={0.5}
+            ListFooterComponent={
+              loadingMore ? (
+                <ActivityIndicator style={styles.listFooter} color="#7C3AED" />
+              ) : null
+            }
+            refreshControl={
+              <RefreshControl
+                refreshing={refreshing}
+                onRefresh={onRefresh}
+                colors={['#7C3AED']}
+                tintColor="#7C3AED"
+              />
+            }
+          />
+        )}
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+  },
+  summaryCard: {
+    backgroundColor: '#7C3AED',
+    padding: 24,
+    alignItems: 'center',
+  },
+  summaryTitle: {
+    fontSize: 14,
+    color: '#E9D5FF',
+    marginBottom: 8,
+  },
+  summaryValue: {
+    fontSize: 36,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+    marginBottom: 4,
+  },
+  summarySubtitle: {
+    fontSize: 14,
+    color: '#E9D5FF',
+  },
+  listContent: {
+    padding: 16,
+  },
+  listFooter: {
+    paddingVertical: 16,
+  },
+  entryCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.08,
+    shadowRadius: 3,
+    elevation: 2,
+  },
+  entryIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  entryInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  entryTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  entryMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  entryDate: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 2,
+  },
+  entryAmounts: {
+    alignItems: 'flex-end',
+  },
+  entryPoints: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  entryBalance: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,211 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { useLocalSearchParams, Stack } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { getLedgerEntry } from '../../../../../repositories/pointsLedger';
+import { formatPointsDelta, getLedgerEntryMeta } from '../../../../../utils/pointsLedger';
+import type { PointsLedgerEntry } from '../../../../../types';
+
+function formatAmount(amount: number, currency: string | null | undefined) {
+  return amount.toLocaleString('es-AR', {
+    style: 'currency',
+    currency: currency || 'ARS',
+  });
+}
+
+export default function LedgerEntryScreen() {
+  const { entryId } = useLocalSearchParams<{ id: string; entryId: string }>();
+  const [entry, setEntry] = useState<PointsLedgerEntry | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const fetchEntry = async () => {
+      const { data, error } = await getLedgerEntry(entryId, { signal: controller.signal });
+      if (error?.kind === 'cancelled') return;
+      setEntry(data);
+      setLoading(false);
+    };
+
+    fetchEntry();
+
+    return () => controller.abort();
+  }, [entryId]);
+
+  const screenOptions = (
+    <Stack.Screen
+      options={{
+        title: 'Detalle del movimiento',
+        headerStyle: { backgroundColor: '#7C3AED' },
+        headerTintColor: '#FFFFFF',
+        headerTitleStyle: { fontWeight: 'bold' },
+      }}
+    />
+  );
+
+  if (loading) {
+    return (
+      <>
+        {screenOptions}
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#7C3AED" />
+        </View>
+      </>
+    );
+  }
+
+  if (!entry) {
+    return (
+      <>
+        {screenOptions}
+        <View style={styles.centered}>
+          <Text style={styles.emptyText}>No encontramos este movimiento.</Text>
+        </View>
+      </>
+    );
+  }
+
+  const meta = getLedgerEntryMeta(entry.entry_type);
+  const details: { label: string; value: string }[] = [
+    {
+      label: 'Fecha',
+      value: new Date(entry.occurred_at).toLocaleString('es-AR', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+        timeZone: 'America/Argentina/Buenos_Aires',
+      }),
+    },
+  ];
+
+  if (entry.purchase_amount != null) {
+    details.push({ label: 'Monto de la compra', value: formatAmount(entry.purchase_amount, entry.currency) });
+  }
+  if (entry.branch) {
+    details.push({ label: 'Sucursal', value: entry.branch.name });
+  }
+  if (entry.offer_name) {
+    details.push({ label: 'Promocion aplicada', value: entry.offer_name });
+  }
+  if (entry.product) {
+    details.push({ label: 'Producto', value: entry.product.name });
+  }
+  if (entry.description) {
+    details.push({ label: 'Detalle', value: entry.description });
+  }
+
+  return (
+    <>
+      {screenOptions}
+      <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+        <View style={styles.headerCard}>
+          <View style={[styles.icon, { backgroundColor: meta.background }]}>
+            <Ionicons name={meta.icon} size={28} color={meta.color} />
+          </View>
+          <Text style={styles.typeLabel}>{meta.label}</Text>
+          <Text style={[styles.points, { color: entry.points >= 0 ? '#059669' : '#DC2626' }]}>
+            {formatPointsDelta(entry.points)} pts
+          </Text>
+        </View>
+
+        <View style={styles.detailsCard}>
+          {details.map((detail) => (
+            <View key={detail.label} style={styles.detailRow}>
+              <Text style={styles.detailLabel}>{detail.label}</Text>
+              <Text style={styles.detailValue}>{detail.value}</Text>
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    padding: 16,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+    padding: 24,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  headerCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    alignItems: 'center',
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  icon: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  typeLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 4,
+  },
+  points: {
+    fontSize: 32,
+    fontWeight: 'bold',
+  },
+  detailsCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+    gap: 16,
+  },
+  detailLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  detailValue: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#111827',
+    textAlign: 'right',
+  },
+});
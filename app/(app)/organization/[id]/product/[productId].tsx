@@ -0,0 +1,479 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+  FlatList,
+  Image,
+  Share,
+  useWindowDimensions,
+} from 'react-native';
+import { useLocalSearchParams, Stack, router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import ErrorState from '../../../../../components/ErrorState';
+import ProductGallery from '../../../../../components/ProductGallery';
+import { useCachedQuery } from '../../../../../hooks/useCachedQuery';
+import { listActiveProducts } from '../../../../../repositories/products';
+import { useMembershipStore } from '../../../../../stores/membershipStore';
+import { pinGoal, unpinGoal, useGoalStore } from '../../../../../stores/goalStore';
+import { CACHE_POLICIES } from '../../../../../utils/cache';
+import { getPreferredBranch, stockAtBranch, totalStock } from '../../../../../utils/branchAvailability';
+import { buildProductUrl } from '../../../../../utils/productLink';
+import { reportError } from '../../../../../utils/errorReporting';
+import type { Product } from '../../../../../types';
+
+export default function ProductDetailScreen() {
+  const { id, productId } = useLocalSearchParams<{ id: string; productId: string }>();
+  const { width } = useWindowDimensions();
+  const membership = useMembershipStore((state) =>
+    state.memberships.find((org) => org.organization_id.toString() === id)
+  );
+  const membershipId = membership?.id;
+  const isGoal = useGoalStore((state) =>
+    !!membershipId && !!state.goals[membershipId]?.some((goal) => goal.productId === productId)
+  );
+  const [activeImageIndex, setActiveImageIndex] = useState(0);
+  const [galleryOpen, setGalleryOpen] = useState(false);
+  const [preferredBranchId, setPreferredBranchId] = useState<string | null>(null);
+
+  // Same cache entry as the organization screen, so this opens instantly
+  const fetchProducts = useCallback((signal: AbortSignal) => listActiveProducts(id, { signal }), [id]);
+  const { data: products, loading, error, refresh } = useCachedQuery<Product[]>(
+    id ? `products:${id}` : null,
+    CACHE_POLICIES.products,
+    fetchProducts
+  );
+
+  useEffect(() => {
+    if (!membershipId) return;
+    let cancelled = false;
+    getPreferredBranch(membershipId).then((stored) => {
+      if (!cancelled) setPreferredBranchId(stored);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [membershipId]);
+
+  const product = products?.find((item) => item.id === productId);
+
+  const handleShare = () => {
+    if (!product) return;
+    Share.share({
+      message: `Mira ${product.name} por ${product.required_points.toLocaleString()} pts en ${membership?.organization?.name || 'PuntosClub'}: ${buildProductUrl(id, product.id)}`,
+    }).catch((error) => reportError(error, 'ProductDetail.share', { level: 'warning' }));
+  };
+
+  const screenOptions = (
+    <Stack.Screen
+      options={{
+        title: product?.name ?? 'Producto',
+        headerStyle: { backgroundColor: '#7C3AED' },
+        headerTintColor: '#FFFFFF',
+        headerTitleStyle: { fontWeight: 'bold' },
+        headerRight: product
+          ? () => (
+            <TouchableOpacity onPress={handleShare} accessibilityLabel="Compartir producto">
+              <Ionicons name="share-outline" size={22} color="#FFFFFF" />
+            </TouchableOpacity>
+          )
+          : undefined,
+      }}
+    />
+  );
+
+  if (loading) {
+    return (
+      <>
+        {screenOptions}
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#7C3AED" />
+        </View>
+      </>
+    );
+  }
+
+  if (!product) {
+    return (
+      <>
+        {screenOptions}
+        {error ? (
+          <ErrorState message="No pudimos cargar el producto." onRetry={refresh} />
+        ) : (
+          <View style={styles.centered}>
+            <Text style={styles.emptyText}>Este producto ya no esta disponible.</Text>
+          </View>
+        )}
+      </>
+    );
+  }
+
+  const imageUrls = product.image_urls ?? [];
+  const stockRows = (product.stock ?? [])
+    .filter((item) => item.branch)
+    .sort((a, b) => b.quantity - a.quantity);
+  const inStock = totalStock(product) > 0;
+  const availablePoints = membership?.available_points ?? 0;
+  const missingPoints = Math.max(0, product.required_points - availablePoints);
+  const progress = product.required_points > 0
+    ? Math.min(1, availablePoints / product.required_points)
+    : 1;
+  const redeemBranchId = preferredBranchId && stockAtBranch(product, preferredBranchId) > 0
+    ? preferredBranchId
+    : null;
+
+  return (
+    <>
+      {screenOptions}
+      <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+        {imageUrls.length > 0 && (
+          <View>
+            <FlatList
+              data={imageUrls}
+              horizontal
+              pagingEnabled
+              showsHorizontalScrollIndicator={false}
+              onMomentumScrollEnd={(event) => {
+                setActiveImageIndex(Math.round(event.nativeEvent.contentOffset.x / width));
+              }}
+              renderItem={({ item, index }) => (
+                <TouchableOpacity
+                  activeOpacity={0.9}
+                  onPress={() => {
+                    setActiveImageIndex(index);
+                    setGalleryOpen(true);
+                  }}
+                >
+                  <Image source={{ uri: item }} style={[styles.heroImage, { width }]} resizeMode="cover" />
+                </TouchableOpacity>
+              )}
+              keyExtractor={(item, index) => `${product.id}-image-${index}`}
+            />
+            {imageUrls.length > 1 && (
+              <View style={styles.paginationDots}>
+                {imageUrls.map((_, index) => (
+                  <View key={index} style={[styles.dot, activeImageIndex === index && styles.activeDot]} />
+                ))}
+              </View>
+            )}
+            <View style={styles.zoomHint}>
+              <Ionicons name="expand-outline" size={14} color="#FFFFFF" />
+            </View>
+          </View>
+        )}
+
+        <View style={styles.body}>
+          {product.category && (
+            <Text style={styles.category}>{product.category.name}</Text>
+          )}
+          <Text style={styles.productName}>{product.name}</Text>
+          <Text style={styles.requiredPoints}>{product.required_points.toLocaleString()} pts</Text>
+
+          {membership ? (
+            <View style={styles.card}>
+              <View style={styles.pointsRow}>
+                <Text style={styles.pointsLabel}>Tu saldo</Text>
+                <Text style={styles.pointsValue}>{availablePoints.toLocaleString()} pts</Text>
+              </View>
+              <View style={styles.progressTrack}>
+                <View
+                  style={[
+                    styles.progressFill,
+                    { width: `${progress * 100}%` },
+                    missingPoints === 0 && styles.progressFillComplete,
+                  ]}
+                />
+              </View>
+              <Text style={[styles.pointsStatus, missingPoints > 0 && styles.pointsStatusMissing]}>
+                {missingPoints > 0
+                  ? `Te faltan ${missingPoints.toLocaleString()} pts`
+                  : 'Tienes puntos suficientes para canjearlo'}
+              </Text>
+              {(missingPoints > 0 || isGoal) && (
+                <TouchableOpacity
+                  style={[styles.goalButton, isGoal && styles.goalButtonActive]}
+                  onPress={() => (isGoal ? unpinGoal(membership.id, product.id) : pinGoal(membership, product))}
+                >
+                  <Ionicons name={isGoal ? 'flag' : 'flag-outline'} size={16} color="#7C3AED" />
+                  <Text style={styles.goalButtonText}>
+                    {isGoal ? 'Quitar de mis metas' : 'Fijar como meta'}
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ) : (
+            <TouchableOpacity
+              style={styles.joinCard}
+              onPress={() => router.push({ pathname: '/(app)/join/[orgId]', params: { orgId: id } })}
+            >
+              <Ionicons name="add-circle-outline" size={20} color="#6D28D9" />
+              <Text style={styles.joinText}>Unete a esta organizacion para sumar puntos y canjearlo</Text>
+            </TouchableOpacity>
+          )}
+
+          {product.description && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Descripcion</Text>
+              <Text style={styles.description}>{product.description}</Text>
+            </View>
+          )}
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Stock por sucursal</Text>
+            {stockRows.length === 0 ? (
+              <Text style={styles.emptyText}>No hay stock en ninguna sucursal por ahora.</Text>
+            ) : (
+              stockRows.map((item) => (
+                <View key={item.id} style={styles.stockRow}>
+                  <Ionicons name="storefront-outline" size={18} color="#6B7280" />
+                  <Text style={styles.stockBranch}>
+                    {item.branch?.name}
+                    {item.branch_id === preferredBranchId && (
+                      <Text style={styles.preferredBranch}> · Tu sucursal</Text>
+                    )}
+                  </Text>
+                  <Text style={[styles.stockQuantity, item.quantity === 0 && styles.stockQuantityEmpty]}>
+                    {item.quantity > 0 ? `${item.quantity} disponibles` : 'Sin stock'}
+                  </Text>
+                </View>
+              ))
+            )}
+          </View>
+
+          {membership && (
+            <TouchableOpacity
+              style={[styles.redeemButton, (missingPoints > 0 || !inStock) && styles.redeemButtonDisabled]}
+              disabled={missingPoints > 0 || !inStock}
+              onPress={() => router.push({
+                pathname: '/(app)/organization/[id]/redeem/[productId]',
+                params: { id, productId: product.id, ...(redeemBranchId && { branchId: redeemBranchId }) },
+              })}
+            >
+              <Ionicons name="gift-outline" size={18} color="#FFFFFF" />
+              <Text style={styles.redeemButtonText}>
+                {!inStock ? 'Sin stock' : missingPoints > 0 ? 'Puntos insuficientes' : 'Canjear'}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
+
+      <ProductGallery
+        imageUrls={imageUrls}
+        initialIndex={activeImageIndex}
+        visible={galleryOpen}
+        onClose={() => setGalleryOpen(false)}
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    paddingBottom: 32,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+    padding: 24,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  heroImage: {
+    height: 280,
+    backgroundColor: '#E5E7EB',
+  },
+  paginationDots: {
+    position: 'absolute',
+    bottom: 12,
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 6,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: 'rgba(255, 255, 255, 0.5)',
+  },
+  activeDot: {
+    backgroundColor: '#FFFFFF',
+  },
+  zoomHint: {
+    position: 'absolute',
+    top: 12,
+    right: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    borderRadius: 12,
+    padding: 6,
+  },
+  body: {
+    padding: 16,
+  },
+  category: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#7C3AED',
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+  productName: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  requiredPoints: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#7C3AED',
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  pointsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  pointsLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  pointsValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#E5E7EB',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 4,
+    backgroundColor: '#7C3AED',
+  },
+  progressFillComplete: {
+    backgroundColor: '#059669',
+  },
+  pointsStatus: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#059669',
+    marginTop: 8,
+  },
+  pointsStatusMissing: {
+    color: '#DC2626',
+  },
+  goalButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#C4B5FD',
+    borderRadius: 8,
+    paddingVertical: 10,
+    marginTop: 12,
+    gap: 6,
+  },
+  goalButtonActive: {
+    backgroundColor: '#EDE9FE',
+  },
+  goalButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#7C3AED',
+  },
+  joinCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#EDE9FE',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+    gap: 8,
+  },
+  joinText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#5B21B6',
+  },
+  description: {
+    fontSize: 15,
+    color: '#374151',
+    lineHeight: 22,
+  },
+  stockRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    gap: 10,
+  },
+  stockBranch: {
+    flex: 1,
+    fontSize: 14,
+    color: '#111827',
+  },
+  preferredBranch: {
+    fontSize: 12,
+    color: '#7C3AED',
+    fontWeight: '600',
+  },
+  stockQuantity: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#059669',
+  },
+  stockQuantityEmpty: {
+    color: '#DC2626',
+  },
+  redeemButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#7C3AED',
+    borderRadius: 8,
+    paddingVertical: 14,
+    gap: 8,
+  },
+  redeemButtonDisabled: {
+    opacity: 0.6,
+  },
+  redeemButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,310 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+  Image,
+  Alert,
+} from 'react-native';
+import { useLocalSearchParams, Stack, router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import ErrorState from '../../../../../components/ErrorState';
+import { useCachedQuery } from '../../../../../hooks/useCachedQuery';
+import { listActiveProducts } from '../../../../../repositories/products';
+import { refreshOrganizations } from '../../../../../contexts/AuthContext';
+import { useMembershipStore } from '../../../../../stores/membershipStore';
+import { CACHE_POLICIES } from '../../../../../utils/cache';
+import { submitRedemptionRequest } from '../../../../../utils/redemptionVoucher';
+import type { Product } from '../../../../../types';
+
+export default function RedeemProductScreen() {
+  const { id, productId, branchId: preferredBranchId } = useLocalSearchParams<{
+    id: string;
+    productId: string;
+    branchId?: string;
+  }>();
+  const membership = useMembershipStore((state) =>
+    state.memberships.find((org) => org.organization_id.toString() === id)
+  );
+  const [branchId, setBranchId] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Same cache entry as the organization screen, so this opens instantly
+  const fetchProducts = useCallback((signal: AbortSignal) => listActiveProducts(id, { signal }), [id]);
+  const { data: products, loading, error, refresh } = useCachedQuery<Product[]>(
+    id ? `products:${id}` : null,
+    CACHE_POLICIES.products,
+    fetchProducts
+  );
+
+  const product = products?.find((item) => item.id === productId);
+  const branches = (product?.stock ?? []).filter((item) => item.quantity > 0 && item.branch);
+  // Start from the branch picked on the organization screen while it still has stock
+  const defaultBranchId = branches.length === 1
+    ? branches[0].branch_id
+    : branches.find((item) => item.branch_id === preferredBranchId)?.branch_id ?? null;
+  const selectedBranchId = branchId ?? defaultBranchId;
+  const availablePoints = membership?.available_points ?? 0;
+  const canAfford = !!product && availablePoints >= product.required_points;
+
+  const handleReserve = async () => {
+    if (!product || !selectedBranchId) return;
+
+    setSubmitting(true);
+    const { voucher, error } = await submitRedemptionRequest(product.id, selectedBranchId);
+    setSubmitting(false);
+
+    if (error || !voucher) {
+      Alert.alert('No se pudo reservar', error?.message ?? 'Intenta nuevamente.');
+      refresh();
+      return;
+    }
+
+    // Pick up the held points right away instead of waiting for realtime
+    refreshOrganizations();
+    router.replace({
+      pathname: '/(app)/redemption/[redemptionId]',
+      params: { redemptionId: voucher.id },
+    });
+  };
+
+  const screenOptions = (
+    <Stack.Screen
+      options={{
+        title: 'Canjear',
+        headerStyle: { backgroundColor: '#7C3AED' },
+        headerTintColor: '#FFFFFF',
+        headerTitleStyle: { fontWeight: 'bold' },
+      }}
+    />
+  );
+
+  if (loading) {
+    return (
+      <>
+        {screenOptions}
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#7C3AED" />
+        </View>
+      </>
+    );
+  }
+
+  if (!product) {
+    return (
+      <>
+        {screenOptions}
+        {error ? (
+          <ErrorState message="No pudimos cargar el producto." onRetry={refresh} />
+        ) : (
+          <View style={styles.centered}>
+            <Text style={styles.emptyText}>Este producto ya no esta disponible.</Text>
+          </View>
+        )}
+      </>
+    );
+  }
+
+  return (
+    <>
+      {screenOptions}
+      <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+        <View style={styles.productCard}>
+          {product.image_urls && product.image_urls.length > 0 && (
+            <Image source={{ uri: product.image_urls[0] }} style={styles.productImage} resizeMode="cover" />
+          )}
+          <Text style={styles.productName}>{product.name}</Text>
+          {product.description && (
+            <Text style={styles.productDescription}>{product.description}</Text>
+          )}
+          <View style={styles.pointsRow}>
+            <Text style={styles.pointsLabel}>Costo</Text>
+            <Text style={styles.pointsValue}>{product.required_points.toLocaleString()} pts</Text>
+          </View>
+          <View style={styles.pointsRow}>
+            <Text style={styles.pointsLabel}>Te quedan</Text>
+            <Text style={[styles.pointsValue, !canAfford && styles.pointsValueNegative]}>
+              {(availablePoints - product.required_points).toLocaleString()} pts
+            </Text>
+          </View>
+        </View>
+
+        <Text style={styles.sectionTitle}>Donde lo retiras?</Text>
+        {branches.length === 0 ? (
+          <Text style={styles.emptyText}>No hay stock en ninguna sucursal por ahora.</Text>
+        ) : (
+          branches.map((item) => {
+            const selected = item.branch_id === selectedBranchId;
+            return (
+              <TouchableOpacity
+                key={item.id}
+                style={[styles.branchOption, selected && styles.branchOptionSelected]}
+                onPress={() => setBranchId(item.branch_id)}
+              >
+                <Ionicons
+                  name={selected ? 'radio-button-on' : 'radio-button-off'}
+                  size={20}
+                  color={selected ? '#7C3AED' : '#9CA3AF'}
+                />
+                <Text style={styles.branchName}>{item.branch?.name}</Text>
+                <Text style={styles.branchStock}>{item.quantity} disponibles</Text>
+              </TouchableOpacity>
+            );
+          })
+        )}
+
+        <View style={styles.noticeCard}>
+          <Ionicons name="information-circle-outline" size={20} color="#6D28D9" />
+          <Text style={styles.noticeText}>
+            Reservamos el producto y apartamos tus puntos. Muestra el comprobante en la
+            sucursal antes de que venza; si no lo usas, los puntos vuelven a tu cuenta.
+          </Text>
+        </View>
+
+        <TouchableOpacity
+          style={[styles.reserveButton, (!canAfford || !selectedBranchId || submitting) && styles.reserveButtonDisabled]}
+          onPress={handleReserve}
+          disabled={!canAfford || !selectedBranchId || submitting}
+        >
+          {submitting ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <Text style={styles.reserveButtonText}>
+              {canAfford
+                ? 'Reservar y obtener comprobante'
+                : `Te faltan ${(product.required_points - availablePoints).toLocaleString()} pts`}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    padding: 16,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+    padding: 24,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  productCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 24,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  productImage: {
+    width: '100%',
+    height: 180,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  productName: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  productDescription: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 12,
+  },
+  pointsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  pointsLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  pointsValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  pointsValueNegative: {
+    color: '#DC2626',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 12,
+  },
+  branchOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+    gap: 10,
+  },
+  branchOptionSelected: {
+    borderColor: '#7C3AED',
+    backgroundColor: '#F5F3FF',
+  },
+  branchName: {
+    flex: 1,
+    fontSize: 15,
+    color: '#111827',
+  },
+  branchStock: {
+    fontSize: 12,
+    color: '#059669',
+  },
+  noticeCard: {
+    flexDirection: 'row',
+    backgroundColor: '#EDE9FE',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 16,
+    marginBottom: 16,
+    gap: 8,
+  },
+  noticeText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#5B21B6',
+  },
+  reserveButton: {
+    backgroundColor: '#7C3AED',
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  reserveButtonDisabled: {
+    opacity: 0.6,
+  },
+  reserveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
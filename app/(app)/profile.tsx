@@ -10,9 +10,20 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { useAuth } from '../../contexts/AuthContext';
+import { membershipStore } from '../../stores/membershipStore';
 import { supabase } from '../../utils/supabase';
+import { createAddress, getAddress, updateAddress } from '../../repositories/addresses';
+import { updateBeneficiary } from '../../repositories/beneficiaries';
 import { router } from 'expo-router';
 import AddressInput, { type AddressData } from '../../components/AddressInput';
+import ErrorState from '../../components/ErrorState';
+import { reportError, trackAction } from '../../utils/errorReporting';
+import {
+  REMINDER_DAY_OPTIONS,
+  getReminderDays,
+  scheduleExpirationReminders,
+  setReminderDays,
+} from '../../utils/pointsExpiration';
 import type { Address } from '../../types';
 import Constants from 'expo-constants';
 
@@ -20,6 +31,9 @@ export default function ProfileScreen() {
   const { beneficiary, signOut, refreshBeneficiary } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
   const [existingAddress, setExistingAddress] = useState<Address | null>(null);
+  const [addressError, setAddressError] = useState<Error | null>(null);
+  // undefined until the saved preference loads, so no option flashes as selected
+  const [reminderDays, setReminderDaysState] = useState<number | null | undefined>(undefined);
   const [formData, setFormData] = useState({
     first_name: beneficiary?.first_name || '',
     last_name: beneficiary?.last_name || '',
@@ -57,6 +71,7 @@ export default function ProfileScreen() {
     } else {
       // Reset address data if no address_id
       setExistingAddress(null);
+      setAddressError(null);
       setAddressData({
         street: '',
         number: '',
@@ -68,81 +83,78 @@ export default function ProfileScreen() {
     }
   }, [beneficiary?.address_id]);
 
-  const fetchAddress = async (addressId: string | number) => {
+  useEffect(() => {
+    getReminderDays().then(setReminderDaysState);
+  }, []);
+
+  const handleReminderDaysChange = async (days: number | null) => {
+    trackAction('setExpirationReminderDays', { days });
+    setReminderDaysState(days);
     try {
-      const { data, error } = await supabase
-        .from('address')
-        .select('*')
-        .eq('id', addressId)
-        .single();
-
-      if (error) {
-        throw error;
-      }
+      await setReminderDays(days);
+      // Otherwise the first load after sign in schedules them
+      const { memberships, loaded } = membershipStore.getState();
+      if (loaded) await scheduleExpirationReminders(memberships, days);
+    } catch (error) {
+      reportError(error, 'Profile.setReminderDays', { level: 'warning' });
+    }
+  };
 
-      if (data) {
-        setExistingAddress(data);
-        setAddressData({
-          street: data.street || '',
-          number: data.number || '',
-          city: data.city || '',
-          state: data.state || '',
-          zip_code: data.zip_code || '',
-          country: data.country || '',
-          place_id: data.place_id || undefined,
-          latitude: data.latitude || undefined,
-          longitude: data.longitude || undefined,
-        });
-      }
-    } catch {
+  const fetchAddress = async (addressId: string) => {
+    setAddressError(null);
+    const { data, error } = await getAddress(addressId);
+
+    if (error) {
+      reportError(error, 'Profile.fetchAddress');
+      setAddressError(error);
+      return;
+    }
+
+    if (data) {
+      setExistingAddress(data);
+      setAddressData({
+        street: data.street || '',
+        number: data.number || '',
+        city: data.city || '',
+        state: data.state || '',
+        zip_code: data.zip_code || '',
+        country: data.country || '',
+        place_id: data.place_id || undefined,
+        latitude: data.latitude || undefined,
+        longitude: data.longitude || undefined,
+      });
     }
   };
 
   const handleSave = async () => {
     if (!beneficiary?.id) return;
 
+    trackAction('saveProfile');
     setIsLoading(true);
     try {
       let addressId = beneficiary.address_id;
 
-      const hasAddressData = addressData.street && addressData.number && 
-                            addressData.city && addressData.state && 
-                            addressData.zip_code;
+      const { street, number, city, state, zip_code } = addressData;
+
+      if (street && number && city && state && zip_code) {
+        const address = {
+          street,
+          number,
+          city,
+          state,
+          zip_code,
+          country: addressData.country || null,
+          place_id: addressData.place_id || null,
+          latitude: addressData.latitude || null,
+          longitude: addressData.longitude || null,
+        };
 
-      if (hasAddressData) {
         if (existingAddress) {
-          const { error: addressUpdateError } = await supabase
-            .from('address')
-            .update({
-              street: addressData.street,
-              number: addressData.number,
-              city: addressData.city,
-              state: addressData.state,
-              zip_code: addressData.zip_code,
-              country: addressData.country || null,
-              place_id: addressData.place_id || null,
-              latitude: addressData.latitude || null,
-              longitude: addressData.longitude || null,
-            })
-            .eq('id', existingAddress.id);
+          const { error: addressUpdateError } = await updateAddress(existingAddress.id, address);
 
           if (addressUpdateError) throw addressUpdateError;
         } else {
-          const { data: newAddress, error: addressCreateError } = await supabase
-            .from('address')
-            .insert({
-              street: addressData.street,
-              number: addressData.number,
-              city: addressData.city,
-              state: addressData.state,
-              zip_code: addressData.zip_code,
-              country: addressData.country || null,
-              place_id: addressData.place_id || null,
-              latitude: addressData.latitude || null,
-              longitude: addressData.longitude || null,
-            })
-            .select()
-            .single();
+          const { data: newAddress, error: addressCreateError } = await createAddress(address);
 
           if (addressCreateError) {
             throw addressCreateError;
@@ -151,16 +163,13 @@ export default function ProfileScreen() {
         }
       }
 
-      const { error: updateError } = await supabase
-        .from('beneficiary')
-        .update({
-          first_name: formData.first_name,
-          last_name: formData.last_name,
-          phone: formData.phone,
-          document_id: formData.document_id,
-          address_id: addressId,
-        })
-        .eq('id', beneficiary.id);
+      const { error: updateError } = await updateBeneficiary(beneficiary.id, {
+        first_name: formData.first_name,
+        last_name: formData.last_name,
+        phone: formData.phone,
+        document_id: formData.document_id,
+        address_id: addressId,
+      });
 
       if (updateError) {
         throw updateError;
@@ -189,6 +198,7 @@ export default function ProfileScreen() {
       Alert.alert('Exito', 'Tu perfil ha sido actualizado correctamente.');
       router.back();
     } catch (error) {
+      reportError(error, 'Profile.save');
       const errorMessage = error instanceof Error ? error.message : 'No se pudo actualizar el perfil';
       Alert.alert(
         'Error',
@@ -285,16 +295,25 @@ export default function ProfileScreen() {
             />
           </View>
 
-          <AddressInput
-            value={addressData}
-            onChange={setAddressData}
-            googleApiKey={googleApiKey}
-          />
+          {/* Saving without the loaded address would create a duplicate */}
+          {addressError && beneficiary?.address_id ? (
+            <ErrorState
+              compact
+              message="No pudimos cargar tu direccion."
+              onRetry={() => fetchAddress(beneficiary.address_id!)}
+            />
+          ) : (
+            <AddressInput
+              value={addressData}
+              onChange={setAddressData}
+              googleApiKey={googleApiKey}
+            />
+          )}
 
           <TouchableOpacity
-            style={[styles.saveButton, isLoading && styles.saveButtonDisabled]}
+            style={[styles.saveButton, (isLoading || !!addressError) && styles.saveButtonDisabled]}
             onPress={handleSave}
-            disabled={isLoading}
+            disabled={isLoading || !!addressError}
           >
             {isLoading ? (
               <ActivityIndicator color="#FFFFFF" />
@@ -303,6 +322,23 @@ export default function ProfileScreen() {
             )}
           </TouchableOpacity>
 
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Avisarme antes de que venzan mis puntos</Text>
+            <View style={styles.reminderOptions}>
+              {[...REMINDER_DAY_OPTIONS, null].map((days) => (
+                <TouchableOpacity
+                  key={days ?? 'off'}
+                  style={[styles.reminderChip, reminderDays === days && styles.reminderChipActive]}
+                  onPress={() => handleReminderDaysChange(days)}
+                >
+                  <Text style={[styles.reminderChipText, reminderDays === days && styles.reminderChipTextActive]}>
+                    {days === null ? 'No avisar' : `${days} dias`}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
           <TouchableOpacity style={styles.signOutButton} onPress={handleSignOut}>
             <Text style={styles.signOutText}>Cerrar Sesion</Text>
           </TouchableOpacity>
@@ -378,6 +414,30 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  reminderOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  reminderChip: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  reminderChipActive: {
+    backgroundColor: '#7C3AED',
+    borderColor: '#7C3AED',
+  },
+  reminderChipText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  reminderChipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
   signOutButton: {
     backgroundColor: '#FEE2E2',
     borderRadius: 8,
@@ -0,0 +1,276 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  ActivityIndicator,
+  RefreshControl,
+  TouchableOpacity,
+} from 'react-native';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '../../contexts/AuthContext';
+import { listReceiptClaims } from '../../repositories/receiptClaims';
+import { formatInvoiceNumber } from '../../utils/fiscalReceipt';
+import type { ReceiptClaim, ReceiptClaimStatus } from '../../types';
+
+const STATUS_LABELS: Record<ReceiptClaimStatus, string> = {
+  pending: 'En revision',
+  approved: 'Aprobado',
+  rejected: 'Rechazado',
+};
+
+export default function ReceiptClaimsScreen() {
+  const { beneficiary } = useAuth();
+  const [claims, setClaims] = useState<ReceiptClaim[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const fetchClaims = useCallback(async () => {
+    if (!beneficiary?.id) return;
+
+    const { data } = await listReceiptClaims(beneficiary.id);
+    setClaims(data ?? []);
+    setLoading(false);
+    setRefreshing(false);
+  }, [beneficiary?.id]);
+
+  useEffect(() => {
+    fetchClaims();
+  }, [fetchClaims]);
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    fetchClaims();
+  }, [fetchClaims]);
+
+  const renderClaim = ({ item }: { item: ReceiptClaim }) => (
+    <View style={styles.claimCard}>
+      <View style={styles.claimHeader}>
+        <View style={styles.claimInfo}>
+          <Text style={styles.orgName}>{item.organization?.name || 'Organizacion'}</Text>
+          <Text style={styles.invoiceText}>
+            Factura {formatInvoiceNumber({
+              pointOfSale: item.point_of_sale,
+              invoiceNumber: item.invoice_number,
+            })}
+          </Text>
+          <Text style={styles.invoiceText}>
+            {item.receipt_date.split('-').reverse().join('/')} -{' '}
+            {item.amount.toLocaleString('es-AR', { style: 'currency', currency: 'ARS' })}
+          </Text>
+        </View>
+        <View
+          style={[
+            styles.statusBadge,
+            item.status === 'approved'
+              ? styles.statusApproved
+              : item.status === 'rejected'
+                ? styles.statusRejected
+                : styles.statusPending,
+          ]}
+        >
+          <Text
+            style={[
+              styles.statusText,
+              item.status === 'approved'
+                ? styles.statusTextApproved
+                : item.status === 'rejected'
+                  ? styles.statusTextRejected
+                  : styles.statusTextPending,
+            ]}
+          >
+            {STATUS_LABELS[item.status] || item.status}
+          </Text>
+        </View>
+      </View>
+      {item.status === 'approved' && item.points_awarded != null && (
+        <Text style={styles.pointsText}>+{item.points_awarded.toLocaleString()} pts acreditados</Text>
+      )}
+      {item.status === 'rejected' && item.rejection_reason && (
+        <Text style={styles.rejectionText}>{item.rejection_reason}</Text>
+      )}
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#7C3AED" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={claims}
+        keyExtractor={(item) => item.id.toString()}
+        renderItem={renderClaim}
+        contentContainerStyle={styles.listContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            colors={['#7C3AED']}
+            tintColor="#7C3AED"
+          />
+        }
+        ListHeaderComponent={
+          <TouchableOpacity
+            style={styles.scanBanner}
+            onPress={() => router.push('/(app)/scan-receipt')}
+            activeOpacity={0.8}
+          >
+            <Ionicons name="receipt-outline" size={28} color="#7C3AED" />
+            <View style={styles.scanBannerText}>
+              <Text style={styles.scanBannerTitle}>Escanear factura</Text>
+              <Text style={styles.scanBannerSubtitle}>
+                Olvidaste mostrar tu tarjeta? Carga el QR de tu ticket
+              </Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color="#7C3AED" />
+          </TouchableOpacity>
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyIcon}>🧾</Text>
+            <Text style={styles.emptyTitle}>Sin tickets cargados</Text>
+            <Text style={styles.emptySubtitle}>
+              Los tickets que escanees apareceran aqui con su estado
+            </Text>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+  },
+  listContent: {
+    padding: 16,
+  },
+  scanBanner: {
+    backgroundColor: '#F3E8FF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#DDD6FE',
+  },
+  scanBannerText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  scanBannerTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#7C3AED',
+    marginBottom: 2,
+  },
+  scanBannerSubtitle: {
+    fontSize: 12,
+    color: '#6B21A8',
+    lineHeight: 16,
+  },
+  claimCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  claimHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  claimInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  orgName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  invoiceText: {
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  statusApproved: {
+    backgroundColor: '#D1FAE5',
+  },
+  statusPending: {
+    backgroundColor: '#FEF3C7',
+  },
+  statusRejected: {
+    backgroundColor: '#FEE2E2',
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  statusTextApproved: {
+    color: '#059669',
+  },
+  statusTextPending: {
+    color: '#D97706',
+  },
+  statusTextRejected: {
+    color: '#DC2626',
+  },
+  pointsText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#059669',
+    marginTop: 8,
+  },
+  rejectionText: {
+    fontSize: 13,
+    color: '#DC2626',
+    marginTop: 8,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyIcon: {
+    fontSize: 64,
+    marginBottom: 16,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+});
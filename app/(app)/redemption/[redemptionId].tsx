@@ -0,0 +1,531 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { useLocalSearchParams, Stack } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import QRCode from 'react-qr-code';
+import ErrorState from '../../../components/ErrorState';
+import { getRedemptionVoucher } from '../../../repositories/redemptions';
+import { refreshOrganizations } from '../../../contexts/AuthContext';
+import { subscribeToTable } from '../../../utils/realtime';
+import { reportError } from '../../../utils/errorReporting';
+import {
+  buildRedemptionTimeline,
+  buildVoucherQrValue,
+  canCancelRedemption,
+  displayedRedemptionStatus,
+  formatVoucherCode,
+  getRedemptionStatusMeta,
+  isVoucherActive,
+  submitRedemptionCancellation,
+} from '../../../utils/redemptionVoucher';
+import type { RedemptionStatus, RedemptionVoucher } from '../../../types';
+
+const RESULT_MESSAGES: Partial<Record<RedemptionStatus, string>> = {
+  delivered: 'Canje entregado. Disfruta tu producto!',
+  expired: 'El comprobante vencio. Tus puntos vuelven a tu cuenta.',
+  cancelled: 'El canje fue cancelado. Tus puntos vuelven a tu cuenta.',
+};
+
+function formatStepDate(date: string) {
+  return new Date(date).toLocaleString('es-AR', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'America/Argentina/Buenos_Aires',
+  });
+}
+
+// `45:09` under an hour, `5 h 12 min` under a day, `2 d 3 h` beyond
+function formatCountdown(milliseconds: number) {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) return `${days} d ${hours} h`;
+  if (hours > 0) return `${hours} h ${minutes} min`;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+export default function RedemptionVoucherScreen() {
+  const { redemptionId } = useLocalSearchParams<{ redemptionId: string }>();
+  const [voucher, setVoucher] = useState<RedemptionVoucher | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<Error | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [cancelling, setCancelling] = useState(false);
+
+  const fetchVoucher = useCallback(async (signal?: AbortSignal) => {
+    const { data, error } = await getRedemptionVoucher(redemptionId, { signal });
+    if (error?.kind === 'cancelled') return;
+    if (error) reportError(error, 'RedemptionVoucher.fetchVoucher');
+    setLoadError(error);
+    if (data) setVoucher(data);
+    setLoading(false);
+  }, [redemptionId]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchVoucher(controller.signal);
+    return () => controller.abort();
+  }, [fetchVoucher]);
+
+  // The store moves the redemption along while it is on screen; the refetch
+  // picks up the new timeline entry with its server timestamp
+  useEffect(() => {
+    if (!redemptionId) return;
+
+    return subscribeToTable(
+      { table: 'redemption', filter: `id=eq.${redemptionId}`, event: 'UPDATE' },
+      {
+        onChange: (payload) => {
+          if (payload.eventType !== 'UPDATE') return;
+          const row = payload.new;
+          setVoucher((prev) => prev && {
+            ...prev,
+            status: row.status,
+            completed_at: row.completed_at,
+            redeemed_by: row.redeemed_by,
+            expires_at: row.expires_at,
+          });
+          fetchVoucher();
+        },
+        onResync: () => fetchVoucher(),
+      }
+    );
+  }, [redemptionId, fetchVoucher]);
+
+  const active = !!voucher && isVoucherActive(voucher, now);
+
+  const handleCancel = () => {
+    if (!voucher) return;
+
+    Alert.alert(
+      'Cancelar canje',
+      'Liberamos el producto y tus puntos vuelven a tu cuenta. ¿Quieres cancelar este canje?',
+      [
+        { text: 'Volver', style: 'cancel' },
+        {
+          text: 'Cancelar canje',
+          style: 'destructive',
+          onPress: async () => {
+            setCancelling(true);
+            const { voucher: cancelled, error } = await submitRedemptionCancellation(voucher.id);
+            setCancelling(false);
+
+            if (error || !cancelled) {
+              Alert.alert('No se pudo cancelar', error?.message ?? 'Intenta nuevamente.');
+              fetchVoucher();
+              return;
+            }
+
+            // The RPC returns the bare row; the refetch brings the new timeline entry
+            setVoucher((prev) => prev && {
+              ...prev,
+              status: cancelled.status,
+              completed_at: cancelled.completed_at,
+            });
+            fetchVoucher();
+            // Release the held points on the membership right away
+            refreshOrganizations();
+          },
+        },
+      ]
+    );
+  };
+
+  useEffect(() => {
+    if (!active || !voucher?.expires_at) return;
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [active, voucher?.expires_at]);
+
+  const screenOptions = (
+    <Stack.Screen
+      options={{
+        title: 'Comprobante de canje',
+        headerStyle: { backgroundColor: '#7C3AED' },
+        headerTintColor: '#FFFFFF',
+        headerTitleStyle: { fontWeight: 'bold' },
+      }}
+    />
+  );
+
+  if (loading) {
+    return (
+      <>
+        {screenOptions}
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#7C3AED" />
+        </View>
+      </>
+    );
+  }
+
+  if (!voucher) {
+    return (
+      <>
+        {screenOptions}
+        {loadError ? (
+          <ErrorState
+            message="No pudimos cargar el comprobante."
+            onRetry={() => {
+              setLoading(true);
+              fetchVoucher();
+            }}
+          />
+        ) : (
+          <View style={styles.centered}>
+            <Text style={styles.emptyText}>No encontramos este canje.</Text>
+          </View>
+        )}
+      </>
+    );
+  }
+
+  const status = displayedRedemptionStatus(voucher, now);
+  const statusMeta = getRedemptionStatusMeta(status);
+  const timeline = buildRedemptionTimeline(voucher, now);
+
+  return (
+    <>
+      {screenOptions}
+      <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+        <View style={styles.voucherCard}>
+          <Text style={styles.productName}>{voucher.product?.name ?? 'Producto'}</Text>
+          {voucher.branch && (
+            <Text style={styles.branchName}>Retiro en {voucher.branch.name}</Text>
+          )}
+
+          {active ? (
+            <>
+              {status === 'ready_for_pickup' && (
+                <View style={styles.readyBanner}>
+                  <Ionicons name="bag-check-outline" size={18} color="#6D28D9" />
+                  <Text style={styles.readyBannerText}>Tu producto esta listo para retirar</Text>
+                </View>
+              )}
+              <View style={styles.qrContainer}>
+                <QRCode value={buildVoucherQrValue(voucher)} size={220} level="M" />
+              </View>
+              <Text style={styles.codeLabel}>Codigo</Text>
+              <Text style={styles.code}>{formatVoucherCode(voucher.voucher_code)}</Text>
+              {voucher.expires_at && (
+                <View style={styles.countdownRow}>
+                  <Ionicons name="time-outline" size={16} color="#D97706" />
+                  <Text style={styles.countdownText}>
+                    Vence en {formatCountdown(new Date(voucher.expires_at).getTime() - now)}
+                  </Text>
+                </View>
+              )}
+            </>
+          ) : (
+            <View style={styles.resultContainer}>
+              <Ionicons name={statusMeta.icon} size={72} color={statusMeta.color} />
+              <Text style={styles.resultText}>{RESULT_MESSAGES[status] ?? statusMeta.label}</Text>
+            </View>
+          )}
+
+          <View style={[styles.statusBadge, { backgroundColor: statusMeta.background }]}>
+            <Text style={[styles.statusText, { color: statusMeta.color }]}>{statusMeta.label}</Text>
+          </View>
+        </View>
+
+        <View style={styles.detailsCard}>
+          <Text style={styles.cardTitle}>Seguimiento</Text>
+          {timeline.map((step, index) => {
+            const stepMeta = getRedemptionStatusMeta(step.status);
+            const isLast = index === timeline.length - 1;
+            const reached = step.state !== 'upcoming';
+            return (
+              <View key={`${step.status}-${index}`} style={styles.timelineRow}>
+                <View style={styles.timelineMarker}>
+                  <View
+                    style={[
+                      styles.timelineDot,
+                      reached && { backgroundColor: stepMeta.color, borderColor: stepMeta.color },
+                      step.state === 'current' && styles.timelineDotCurrent,
+                    ]}
+                  >
+                    {reached && <Ionicons name={stepMeta.icon} size={12} color="#FFFFFF" />}
+                  </View>
+                  {!isLast && (
+                    <View style={[styles.timelineLine, timeline[index + 1].state !== 'upcoming' && styles.timelineLineDone]} />
+                  )}
+                </View>
+                <View style={styles.timelineContent}>
+                  <Text style={[styles.timelineLabel, !reached && styles.timelineLabelUpcoming]}>
+                    {stepMeta.label}
+                  </Text>
+                  {step.changedAt && (
+                    <Text style={styles.timelineDate}>{formatStepDate(step.changedAt)}</Text>
+                  )}
+                  {step.note && <Text style={styles.timelineNote}>{step.note}</Text>}
+                </View>
+              </View>
+            );
+          })}
+        </View>
+
+        <View style={styles.detailsCard}>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Puntos</Text>
+            <Text style={styles.detailValue}>{voucher.points_used.toLocaleString()} pts</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Solicitado</Text>
+            <Text style={styles.detailValue}>{formatStepDate(voucher.requested_at)}</Text>
+          </View>
+        </View>
+
+        {active && (
+          <Text style={styles.hint}>
+            {status === 'ready_for_pickup'
+              ? 'Muestra este codigo en la sucursal para retirar tu producto.'
+              : 'Te avisamos aca cuando la tienda lo prepare. Tus puntos quedan apartados hasta la entrega.'}
+          </Text>
+        )}
+
+        {canCancelRedemption(voucher, now) && (
+          <TouchableOpacity
+            style={[styles.cancelButton, cancelling && styles.cancelButtonDisabled]}
+            onPress={handleCancel}
+            disabled={cancelling}
+          >
+            {cancelling ? (
+              <ActivityIndicator size="small" color="#DC2626" />
+            ) : (
+              <Text style={styles.cancelButtonText}>Cancelar canje</Text>
+            )}
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    padding: 16,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+    padding: 24,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  voucherCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    alignItems: 'center',
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  productName: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+    textAlign: 'center',
+  },
+  branchName: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  qrContainer: {
+    padding: 16,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    marginVertical: 20,
+  },
+  codeLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+    textTransform: 'uppercase',
+  },
+  code: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#111827',
+    letterSpacing: 4,
+    marginBottom: 12,
+  },
+  countdownRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 16,
+  },
+  countdownText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#D97706',
+  },
+  resultContainer: {
+    alignItems: 'center',
+    marginVertical: 24,
+  },
+  resultText: {
+    fontSize: 16,
+    color: '#374151',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  statusBadge: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  statusText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  detailsCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 12,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+  },
+  timelineMarker: {
+    alignItems: 'center',
+    width: 24,
+    marginRight: 12,
+  },
+  timelineDot: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    borderWidth: 2,
+    borderColor: '#D1D5DB',
+    backgroundColor: '#FFFFFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  timelineDotCurrent: {
+    transform: [{ scale: 1.15 }],
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    minHeight: 16,
+    backgroundColor: '#E5E7EB',
+  },
+  timelineLineDone: {
+    backgroundColor: '#A78BFA',
+  },
+  timelineContent: {
+    flex: 1,
+    paddingBottom: 16,
+  },
+  timelineLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  timelineLabelUpcoming: {
+    fontWeight: '400',
+    color: '#9CA3AF',
+  },
+  timelineDate: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  timelineNote: {
+    fontSize: 12,
+    color: '#374151',
+    marginTop: 2,
+  },
+  readyBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#EDE9FE',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginTop: 12,
+    gap: 8,
+  },
+  readyBannerText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#5B21B6',
+  },
+  cancelButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#FEE2E2',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#FCA5A5',
+    padding: 14,
+    marginTop: 16,
+  },
+  cancelButtonDisabled: {
+    opacity: 0.6,
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#DC2626',
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+  },
+  detailLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  detailValue: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#6B7280',
+    textAlign: 'center',
+    paddingHorizontal: 16,
+  },
+});
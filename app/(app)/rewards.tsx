@@ -0,0 +1,380 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SectionList,
+  ActivityIndicator,
+  TouchableOpacity,
+  Image,
+  RefreshControl,
+} from 'react-native';
+import { router } from 'expo-router';
+import ErrorState from '../../components/ErrorState';
+import CatalogFilterBar from '../../components/CatalogFilterBar';
+import { useCachedQuery } from '../../hooks/useCachedQuery';
+import { useMembershipStore } from '../../stores/membershipStore';
+import {
+  listActiveProductsForOrganizations,
+  type OrganizationProduct,
+} from '../../repositories/products';
+import { CACHE_POLICIES } from '../../utils/cache';
+import { totalStock } from '../../utils/branchAvailability';
+import {
+  DEFAULT_CATALOG_FILTERS,
+  applyCatalogFilters,
+  catalogSortKey,
+  listCategories,
+  type CatalogFilters,
+} from '../../utils/catalogFilters';
+import type { BeneficiaryOrganization, Product } from '../../types';
+
+type RewardSection = {
+  membership: BeneficiaryOrganization;
+  affordableCount: number;
+  data: Product[];
+};
+
+export default function RewardsScreen() {
+  const memberships = useMembershipStore((state) => state.memberships);
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<CatalogFilters>(DEFAULT_CATALOG_FILTERS);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const activeMemberships = memberships.filter((membership) => membership.is_active);
+  const organizationIds = activeMemberships.map((membership) => membership.organization_id).sort();
+  const organizationKey = organizationIds.join(',');
+
+  const fetchProducts = useCallback(
+    (signal: AbortSignal) =>
+      listActiveProductsForOrganizations(organizationKey ? organizationKey.split(',') : [], { signal }),
+    [organizationKey]
+  );
+  const { data: products, loading, error, refresh } = useCachedQuery<OrganizationProduct[]>(
+    organizationKey ? `products:memberships:${organizationKey}` : null,
+    CACHE_POLICIES.products,
+    fetchProducts
+  );
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await refresh();
+    setRefreshing(false);
+  };
+
+  // Filters and sort apply within each organization, against its own balance.
+  // Sections follow the same sort by their first product, so the best match
+  // across every catalog comes first.
+  const sections: RewardSection[] = activeMemberships
+    .map((membership) => {
+      const catalog = (products ?? []).filter((product) => product.organization_id === membership.organization_id);
+      const data = applyCatalogFilters(catalog, filters, {
+        query,
+        availablePoints: membership.available_points,
+        branchId: null,
+      });
+      return {
+        membership,
+        affordableCount: catalog.filter((product) => product.required_points <= membership.available_points).length,
+        data,
+      };
+    })
+    .filter((section) => section.data.length > 0)
+    .sort(
+      (a, b) =>
+        catalogSortKey(a.data[0], filters.sort, a.membership.available_points) -
+        catalogSortKey(b.data[0], filters.sort, b.membership.available_points)
+    );
+
+  const renderProduct = ({ item, section }: { item: Product; section: RewardSection }) => {
+    const { membership } = section;
+    const missingPoints = item.required_points - membership.available_points;
+    const inStock = totalStock(item) > 0;
+
+    return (
+      <TouchableOpacity
+        style={styles.productRow}
+        activeOpacity={0.7}
+        onPress={() => router.push({
+          pathname: '/(app)/organization/[id]/product/[productId]',
+          params: { id: membership.organization_id, productId: item.id },
+        })}
+      >
+        {item.image_urls && item.image_urls.length > 0 ? (
+          <Image source={{ uri: item.image_urls[0] }} style={styles.productImage} resizeMode="cover" />
+        ) : (
+          <View style={[styles.productImage, styles.productImagePlaceholder]}>
+            <Text style={styles.productImageEmoji}>🎁</Text>
+          </View>
+        )}
+        <View style={styles.productInfo}>
+          <Text style={styles.productName} numberOfLines={2}>{item.name}</Text>
+          {item.category && <Text style={styles.productCategory}>{item.category.name}</Text>}
+          <Text
+            style={[
+              styles.productStatus,
+              !inStock ? styles.productStatusMuted : missingPoints > 0 ? styles.productStatusMissing : styles.productStatusReady,
+            ]}
+          >
+            {!inStock
+              ? 'Sin stock'
+              : missingPoints > 0
+                ? `Te faltan ${missingPoints.toLocaleString()} pts`
+                : 'Te alcanza'}
+          </Text>
+        </View>
+        <View style={styles.productPoints}>
+          <Text style={styles.productPointsValue}>{item.required_points.toLocaleString()}</Text>
+          <Text style={styles.productPointsLabel}>pts</Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderSectionHeader = ({ section }: { section: RewardSection }) => {
+    const { membership } = section;
+    return (
+      <TouchableOpacity
+        style={styles.sectionHeader}
+        activeOpacity={0.7}
+        onPress={() => router.push({
+          pathname: '/(app)/organization/[id]',
+          params: { id: membership.organization_id },
+        })}
+      >
+        {membership.organization?.logo_url && (
+          <Image source={{ uri: membership.organization.logo_url }} style={styles.orgLogo} resizeMode="contain" />
+        )}
+        <View style={styles.sectionInfo}>
+          <Text style={styles.sectionTitle} numberOfLines={1}>
+            {membership.organization?.name || 'Organizacion'}
+          </Text>
+          <Text style={styles.sectionSubtitle}>
+            {section.affordableCount > 0
+              ? `${section.affordableCount} ${section.affordableCount === 1 ? 'premio te alcanza' : 'premios te alcanzan'}`
+              : 'Todavia no te alcanza ningun premio'}
+          </Text>
+        </View>
+        <View style={styles.balanceBadge}>
+          <Text style={styles.balanceValue}>{membership.available_points.toLocaleString()}</Text>
+          <Text style={styles.balanceLabel}>puntos</Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  if (activeMemberships.length === 0) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.emptyEmoji}>🎁</Text>
+        <Text style={styles.emptyTitle}>Todavia no tienes premios</Text>
+        <Text style={styles.emptyText}>Unete a una organizacion para ver lo que puedes canjear.</Text>
+        <TouchableOpacity style={styles.primaryButton} onPress={() => router.push('/(app)/explore')}>
+          <Text style={styles.primaryButtonText}>Explorar organizaciones</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#7C3AED" />
+      </View>
+    );
+  }
+
+  if (!products && error) {
+    return <ErrorState message="No pudimos cargar los premios." onRetry={refresh} />;
+  }
+
+  return (
+    <SectionList
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      sections={sections}
+      keyExtractor={(item) => item.id}
+      renderItem={renderProduct}
+      renderSectionHeader={renderSectionHeader}
+      stickySectionHeadersEnabled={false}
+      keyboardShouldPersistTaps="handled"
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#7C3AED']} tintColor="#7C3AED" />
+      }
+      ListHeaderComponent={
+        <CatalogFilterBar
+          query={query}
+          onQueryChange={setQuery}
+          filters={filters}
+          onFiltersChange={(update) => setFilters((current) => ({ ...current, ...update }))}
+          categories={listCategories(products ?? [])}
+        />
+      }
+      ListEmptyComponent={
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyEmoji}>🔍</Text>
+          <Text style={styles.emptyTitle}>Ningun premio coincide</Text>
+          <Text style={styles.emptyText}>Prueba con otra busqueda o filtro.</Text>
+        </View>
+      }
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+    padding: 24,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 32,
+  },
+  emptyEmoji: {
+    fontSize: 48,
+    marginBottom: 12,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  primaryButton: {
+    backgroundColor: '#7C3AED',
+    borderRadius: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  orgLogo: {
+    width: 36,
+    height: 36,
+    borderRadius: 8,
+    marginRight: 10,
+    backgroundColor: '#F3F4F6',
+  },
+  sectionInfo: {
+    flex: 1,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  sectionSubtitle: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  balanceBadge: {
+    backgroundColor: '#7C3AED',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    alignItems: 'center',
+    minWidth: 64,
+  },
+  balanceValue: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  balanceLabel: {
+    fontSize: 10,
+    color: '#E9D5FF',
+  },
+  productRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  productImage: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+    marginRight: 12,
+    backgroundColor: '#E5E7EB',
+  },
+  productImagePlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  productImageEmoji: {
+    fontSize: 24,
+  },
+  productInfo: {
+    flex: 1,
+  },
+  productName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  productCategory: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  productStatus: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  productStatusReady: {
+    color: '#059669',
+  },
+  productStatusMissing: {
+    color: '#DC2626',
+  },
+  productStatusMuted: {
+    color: '#9CA3AF',
+  },
+  productPoints: {
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  productPointsValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#7C3AED',
+  },
+  productPointsLabel: {
+    fontSize: 11,
+    color: '#6B7280',
+  },
+});
@@ -9,10 +9,11 @@ import {
 } from 'react-native';
 import { CameraView, useCameraPermissions, BarcodeScanningResult } from 'expo-camera';
 import { router } from 'expo-router';
-import { useAuth } from '../../contexts/AuthContext';
+import { useJoinConfirmation } from '../../hooks/useJoinConfirmation';
+import { parseInviteCode } from '../../utils/inviteCode';
 
 export default function ScanOrganizationScreen() {
-  const { joinOrganization, refreshOrganizations } = useAuth();
+  const { confirmJoin } = useJoinConfirmation();
   const [permission, requestPermission] = useCameraPermissions();
   const [scanned, setScanned] = useState(false);
   const [loading, setLoading] = useState(false);
@@ -24,69 +25,21 @@ export default function ScanOrganizationScreen() {
     setLoading(true);
 
     try {
-      const qrData = JSON.parse(result.data);
+      const { invite, error: inviteError } = parseInviteCode(result.data);
 
-      if (qrData.type !== 'organization' || !qrData.id) {
+      if (inviteError || !invite) {
         setLoading(false);
         setScanned(false);
-        Alert.alert('Error', 'Codigo QR no valido. Por favor escanea un QR de organizacion.', [
+        Alert.alert('Error', inviteError?.message || 'Codigo QR no valido.', [
           { text: 'OK', onPress: () => setScanned(false) }
         ]);
         return;
       }
 
-      const organizationId = qrData.id.toString();
-      const organizationName = qrData.name || 'esta organizacion';
-
-      Alert.alert(
-        'Unirse a ' + organizationName,
-        `Quieres unirte a ${organizationName} para empezar a acumular puntos?`,
-        [
-          {
-            text: 'Cancelar',
-            style: 'cancel',
-            onPress: () => {
-              setLoading(false);
-              setScanned(false);
-            }
-          },
-          {
-            text: 'Unirse',
-            onPress: async () => {
-              const { error } = await joinOrganization(organizationId);
-              
-              if (error) {
-                setLoading(false);
-                setScanned(false);
-                Alert.alert('Error', error.message, [
-                  { text: 'OK', onPress: () => setScanned(false) }
-                ]);
-              } else {
-                await refreshOrganizations();
-                Alert.alert(
-                  'Exito',
-                  `Te has unido a ${organizationName}. Ya puedes empezar a acumular puntos!`,
-                  [
-                    {
-                      text: 'Ver Organizacion',
-                      onPress: () => {
-                        router.replace({
-                          pathname: '/(app)/organization/[id]',
-                          params: { id: organizationId }
-                        });
-                      }
-                    },
-                    {
-                      text: 'Volver',
-                      onPress: () => router.back()
-                    }
-                  ]
-                );
-              }
-            },
-          },
-        ]
-      );
+      confirmJoin(invite.organizationId, invite.organizationName, () => {
+        setLoading(false);
+        setScanned(false);
+      });
     } catch {
       setLoading(false);
       setScanned(false);
@@ -116,6 +69,12 @@ export default function ScanOrganizationScreen() {
         <TouchableOpacity style={styles.permissionButton} onPress={requestPermission}>
           <Text style={styles.permissionButtonText}>Dar Permiso</Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.manualButton}
+          onPress={() => router.replace('/(app)/enter-code')}
+        >
+          <Text style={styles.manualButtonText}>Ingresar codigo manualmente</Text>
+        </TouchableOpacity>
         <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
           <Text style={styles.backButtonText}>Volver</Text>
         </TouchableOpacity>
@@ -156,6 +115,9 @@ export default function ScanOrganizationScreen() {
             <Text style={styles.instructionSubtext}>
               Busca el QR en el local o pregunta al personal
             </Text>
+            <TouchableOpacity onPress={() => router.replace('/(app)/enter-code')}>
+              <Text style={styles.manualLinkText}>No podes escanear? Ingresa el codigo</Text>
+            </TouchableOpacity>
             {loading && (
               <ActivityIndicator size="small" color="#FFFFFF" style={styles.loadingIndicator} />
             )}
@@ -298,6 +260,26 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  manualButton: {
+    borderWidth: 1,
+    borderColor: '#7C3AED',
+    paddingHorizontal: 32,
+    paddingVertical: 14,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  manualButtonText: {
+    color: '#7C3AED',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  manualLinkText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+    textDecorationLine: 'underline',
+    marginTop: 12,
+  },
   backButton: {
     paddingHorizontal: 32,
     paddingVertical: 14,
@@ -0,0 +1,312 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { CameraView, useCameraPermissions, BarcodeScanningResult } from 'expo-camera';
+import { router } from 'expo-router';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  findOrganizationByCuit,
+  formatInvoiceNumber,
+  parseFiscalReceiptQr,
+  submitReceiptClaim,
+} from '../../utils/fiscalReceipt';
+
+export default function ScanReceiptScreen() {
+  const { beneficiary, allOrganizations, userOrganizations } = useAuth();
+  const [permission, requestPermission] = useCameraPermissions();
+  const [scanned, setScanned] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const resetScanner = () => {
+    setLoading(false);
+    setScanned(false);
+  };
+
+  const showError = (message: string) => {
+    setLoading(false);
+    Alert.alert('Error', message, [{ text: 'OK', onPress: resetScanner }]);
+  };
+
+  const handleBarCodeScanned = async (result: BarcodeScanningResult) => {
+    if (scanned || loading || !beneficiary?.id) return;
+
+    setScanned(true);
+    setLoading(true);
+
+    const { receipt, error } = parseFiscalReceiptQr(result.data);
+    if (error || !receipt) {
+      showError(error?.message || 'No se pudo leer el QR de la factura.');
+      return;
+    }
+
+    const organization = findOrganizationByCuit(allOrganizations, receipt.issuerCuit);
+    if (!organization) {
+      showError('El comercio que emitio esta factura no participa de PuntosClub.');
+      return;
+    }
+
+    const isMember = userOrganizations.some(
+      (org) => org.organization_id.toString() === organization.id.toString()
+    );
+    if (!isMember) {
+      showError(`Todavia no sos miembro de ${organization.name}. Unite para poder sumar puntos con tus compras.`);
+      return;
+    }
+
+    const amount = receipt.amount.toLocaleString('es-AR', { style: 'currency', currency: 'ARS' });
+
+    Alert.alert(
+      'Reclamar puntos',
+      `${organization.name}\nFactura ${formatInvoiceNumber(receipt)}\n${receipt.date.split('-').reverse().join('/')} - ${amount}`,
+      [
+        { text: 'Cancelar', style: 'cancel', onPress: resetScanner },
+        {
+          text: 'Enviar',
+          onPress: async () => {
+            const { error: claimError } = await submitReceiptClaim(
+              beneficiary.id,
+              organization.id.toString(),
+              receipt
+            );
+
+            if (claimError) {
+              showError(claimError.message);
+              return;
+            }
+
+            setLoading(false);
+            Alert.alert(
+              'Reclamo enviado',
+              'Revisaremos tu factura y te avisaremos cuando se acrediten los puntos.',
+              [
+                { text: 'Ver mis tickets', onPress: () => router.replace('/(app)/receipt-claims') },
+                { text: 'Escanear otro', onPress: resetScanner },
+              ]
+            );
+          },
+        },
+      ]
+    );
+  };
+
+  if (!permission) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator size="large" color="#7C3AED" />
+      </View>
+    );
+  }
+
+  if (!permission.granted) {
+    return (
+      <View style={styles.permissionContainer}>
+        <Text style={styles.permissionTitle}>Permiso de Camara</Text>
+        <Text style={styles.permissionText}>
+          Necesitamos acceso a la camara para escanear el QR de tus facturas
+        </Text>
+        <TouchableOpacity style={styles.permissionButton} onPress={requestPermission}>
+          <Text style={styles.permissionButtonText}>Dar Permiso</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Text style={styles.backButtonText}>Volver</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <CameraView
+        style={styles.camera}
+        facing="back"
+        barcodeScannerSettings={{
+          barcodeTypes: ['qr'],
+        }}
+        onBarcodeScanned={scanned ? undefined : handleBarCodeScanned}
+      >
+        <View style={styles.overlay}>
+          <View style={styles.header}>
+            <TouchableOpacity
+              style={styles.headerButton}
+              onPress={() => router.push('/(app)/receipt-claims')}
+            >
+              <Text style={styles.headerButtonText}>Mis tickets</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.headerButton} onPress={() => router.back()}>
+              <Text style={styles.headerButtonText}>Cerrar</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.scanArea}>
+            <View style={styles.scanFrame}>
+              <View style={[styles.corner, styles.topLeft]} />
+              <View style={[styles.corner, styles.topRight]} />
+              <View style={[styles.corner, styles.bottomLeft]} />
+              <View style={[styles.corner, styles.bottomRight]} />
+            </View>
+          </View>
+
+          <View style={styles.instructions}>
+            <Text style={styles.instructionText}>
+              Escanea el QR de tu factura
+            </Text>
+            <Text style={styles.instructionSubtext}>
+              Lo encontras al pie del ticket, junto al CAE
+            </Text>
+            {loading && (
+              <ActivityIndicator size="small" color="#FFFFFF" style={styles.loadingIndicator} />
+            )}
+          </View>
+        </View>
+      </CameraView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  camera: {
+    flex: 1,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: 'transparent',
+  },
+  header: {
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  headerButton: {
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+  },
+  headerButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  scanArea: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scanFrame: {
+    width: 250,
+    height: 250,
+    position: 'relative',
+  },
+  corner: {
+    position: 'absolute',
+    width: 30,
+    height: 30,
+    borderColor: '#7C3AED',
+    borderWidth: 4,
+  },
+  topLeft: {
+    top: 0,
+    left: 0,
+    borderRightWidth: 0,
+    borderBottomWidth: 0,
+    borderTopLeftRadius: 12,
+  },
+  topRight: {
+    top: 0,
+    right: 0,
+    borderLeftWidth: 0,
+    borderBottomWidth: 0,
+    borderTopRightRadius: 12,
+  },
+  bottomLeft: {
+    bottom: 0,
+    left: 0,
+    borderRightWidth: 0,
+    borderTopWidth: 0,
+    borderBottomLeftRadius: 12,
+  },
+  bottomRight: {
+    bottom: 0,
+    right: 0,
+    borderLeftWidth: 0,
+    borderTopWidth: 0,
+    borderBottomRightRadius: 12,
+  },
+  instructions: {
+    paddingBottom: 100,
+    alignItems: 'center',
+  },
+  instructionText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+    textAlign: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 20,
+  },
+  instructionSubtext: {
+    color: '#E9D5FF',
+    fontSize: 14,
+    textAlign: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+    borderRadius: 20,
+    marginTop: 8,
+  },
+  loadingIndicator: {
+    marginTop: 16,
+  },
+  permissionContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+    backgroundColor: '#F9FAFB',
+  },
+  permissionTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 12,
+  },
+  permissionText: {
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  permissionButton: {
+    backgroundColor: '#7C3AED',
+    paddingHorizontal: 32,
+    paddingVertical: 14,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  permissionButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  backButton: {
+    paddingHorizontal: 32,
+    paddingVertical: 14,
+  },
+  backButtonText: {
+    color: '#6B7280',
+    fontSize: 16,
+  },
+});
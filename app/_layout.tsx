@@ -1,18 +1,43 @@
-import { Stack, useRouter } from "expo-router";
+import { Stack, usePathname, useRouter } from "expo-router";
 import { useEffect, useRef } from "react";
+import type { NotificationResponse } from "expo-notifications";
 import { AuthProvider } from "../contexts/AuthContext";
-import { addNotificationResponseReceivedListener } from "../utils/pushNotifications";
+import {
+  addNotificationResponseReceivedListener,
+  consumeLaunchNotificationResponse,
+  getNotificationUrl,
+} from "../utils/pushNotifications";
+import { trackScreen } from "../utils/errorReporting";
+import { setupErrorReporting } from "../utils/errorSinks";
+
+setupErrorReporting();
 
 export default function RootLayout() {
   const router = useRouter();
+  const pathname = usePathname();
   const responseListener = useRef<any>(null);
 
   useEffect(() => {
-    responseListener.current = addNotificationResponseReceivedListener(response => {
-      const url = response.notification.request.content.data?.url;
-      if (typeof url === 'string') {
+    trackScreen(pathname);
+  }, [pathname]);
+
+  useEffect(() => {
+    const openNotification = (response: NotificationResponse) => {
+      const url = getNotificationUrl(response);
+      if (url) {
         router.push(url as any);
       }
+    };
+
+    const launchResponse = consumeLaunchNotificationResponse();
+    if (launchResponse) {
+      openNotification(launchResponse);
+    }
+
+    responseListener.current = addNotificationResponseReceivedListener(response => {
+      // Also stored as the last response; drop it so the next launch skips it
+      consumeLaunchNotificationResponse();
+      openNotification(response);
     });
 
     return () => {
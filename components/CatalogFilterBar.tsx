@@ -0,0 +1,161 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, TextInput, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { CATALOG_SORT_OPTIONS, type CatalogFilters } from '../utils/catalogFilters';
+import type { Category } from '../types';
+
+interface CatalogFilterBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  filters: CatalogFilters;
+  onFiltersChange: (update: Partial<CatalogFilters>) => void;
+  categories: Category[];
+  /** Selected branch, so the stock toggle says where it looks. */
+  branchName?: string | null;
+}
+
+interface ChipProps {
+  label: string;
+  active: boolean;
+  onPress: () => void;
+  icon?: React.ComponentProps<typeof Ionicons>['name'];
+}
+
+function Chip({ label, active, onPress, icon }: ChipProps) {
+  return (
+    <TouchableOpacity style={[styles.chip, active && styles.chipActive]} onPress={onPress}>
+      {icon && <Ionicons name={icon} size={14} color={active ? '#FFFFFF' : '#374151'} />}
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+export default function CatalogFilterBar({
+  query,
+  onQueryChange,
+  filters,
+  onFiltersChange,
+  categories,
+  branchName,
+}: CatalogFilterBarProps) {
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchBox}>
+        <Ionicons name="search" size={18} color="#9CA3AF" />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Buscar productos..."
+          placeholderTextColor="#9CA3AF"
+          value={query}
+          onChangeText={onQueryChange}
+          returnKeyType="search"
+          autoCorrect={false}
+        />
+        {query.length > 0 && (
+          <TouchableOpacity onPress={() => onQueryChange('')} hitSlop={8} accessibilityLabel="Borrar busqueda">
+            <Ionicons name="close-circle" size={18} color="#9CA3AF" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {categories.length > 1 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          <Chip
+            label="Todas"
+            active={filters.categoryId === null}
+            onPress={() => onFiltersChange({ categoryId: null })}
+          />
+          {categories.map((category) => (
+            <Chip
+              key={category.id}
+              label={category.name}
+              active={filters.categoryId === category.id}
+              onPress={() => onFiltersChange({ categoryId: category.id })}
+            />
+          ))}
+        </ScrollView>
+      )}
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        <Chip
+          icon="wallet-outline"
+          label="Solo los que me alcanzan"
+          active={filters.affordableOnly}
+          onPress={() => onFiltersChange({ affordableOnly: !filters.affordableOnly })}
+        />
+        <Chip
+          icon="cube-outline"
+          label={branchName ? `Con stock en ${branchName}` : 'Con stock'}
+          active={filters.inStockOnly}
+          onPress={() => onFiltersChange({ inStockOnly: !filters.inStockOnly })}
+        />
+      </ScrollView>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        <Text style={styles.sortLabel}>Ordenar</Text>
+        {CATALOG_SORT_OPTIONS.map((option) => (
+          <Chip
+            key={option.value}
+            label={option.label}
+            active={filters.sort === option.value}
+            onPress={() => onFiltersChange({ sort: option.value })}
+          />
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 12,
+    gap: 8,
+  },
+  searchBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    paddingHorizontal: 12,
+    gap: 8,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#111827',
+  },
+  chipRow: {
+    alignItems: 'center',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    gap: 4,
+  },
+  chipActive: {
+    backgroundColor: '#7C3AED',
+    borderColor: '#7C3AED',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  sortLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+});
@@ -0,0 +1,69 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+interface ErrorStateProps {
+  message: string;
+  onRetry: () => void;
+  /** Inline card for a section of a screen instead of a full-screen message. */
+  compact?: boolean;
+}
+
+export default function ErrorState({ message, onRetry, compact = false }: ErrorStateProps) {
+  return (
+    <View style={compact ? styles.compactContainer : styles.container}>
+      <Ionicons
+        name="cloud-offline-outline"
+        size={compact ? 28 : 56}
+        color="#9CA3AF"
+      />
+      <Text style={[styles.message, compact && styles.compactMessage]}>{message}</Text>
+      <TouchableOpacity style={styles.retryButton} onPress={onRetry}>
+        <Ionicons name="refresh" size={16} color="#FFFFFF" />
+        <Text style={styles.retryButtonText}>Reintentar</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  compactContainer: {
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+  },
+  message: {
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 12,
+    marginBottom: 16,
+  },
+  compactMessage: {
+    fontSize: 14,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  retryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#7C3AED',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    gap: 6,
+  },
+  retryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
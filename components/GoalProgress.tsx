@@ -0,0 +1,101 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { goalProgress, type SavingsGoal } from '../utils/savingsGoals';
+
+interface GoalProgressProps {
+  goal: SavingsGoal;
+  availablePoints: number;
+  /** Thinner bar and single line for list cards. */
+  compact?: boolean;
+  onRemove?: () => void;
+}
+
+export default function GoalProgress({ goal, availablePoints, compact = false, onRemove }: GoalProgressProps) {
+  const { progress, missingPoints } = goalProgress(goal, availablePoints);
+  const reached = missingPoints === 0;
+
+  return (
+    <View style={[styles.container, compact && styles.compactContainer]}>
+      <View style={styles.header}>
+        <Ionicons name={reached ? 'trophy' : 'flag'} size={compact ? 12 : 14} color={reached ? '#059669' : '#7C3AED'} />
+        <Text style={[styles.name, compact && styles.compactName]} numberOfLines={1}>
+          {goal.name}
+        </Text>
+        {!compact && (
+          <Text style={styles.points}>
+            {Math.min(availablePoints, goal.requiredPoints).toLocaleString()} / {goal.requiredPoints.toLocaleString()} pts
+          </Text>
+        )}
+        {onRemove && (
+          <TouchableOpacity onPress={onRemove} hitSlop={8} accessibilityLabel={`Quitar meta ${goal.name}`}>
+            <Ionicons name="close" size={16} color="#9CA3AF" />
+          </TouchableOpacity>
+        )}
+      </View>
+      <View style={[styles.track, compact && styles.compactTrack]}>
+        <View style={[styles.fill, reached && styles.fillReached, { width: `${progress * 100}%` }]} />
+      </View>
+      <Text style={[styles.status, reached && styles.statusReached]}>
+        {reached ? 'Ya te alcanza para canjearlo!' : `Te faltan ${missingPoints.toLocaleString()} pts`}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 12,
+  },
+  compactContainer: {
+    marginTop: 6,
+    marginBottom: 0,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 4,
+  },
+  name: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  compactName: {
+    fontSize: 12,
+    color: '#374151',
+  },
+  points: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  track: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#E5E7EB',
+    overflow: 'hidden',
+  },
+  compactTrack: {
+    height: 4,
+    borderRadius: 2,
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 4,
+    backgroundColor: '#7C3AED',
+  },
+  fillReached: {
+    backgroundColor: '#059669',
+  },
+  status: {
+    fontSize: 11,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  statusReached: {
+    color: '#059669',
+    fontWeight: '600',
+  },
+});
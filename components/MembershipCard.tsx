@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Image, TouchableOpacity } from 'react-native';
+import QRCode from 'react-qr-code';
+import Barcode from 'react-native-barcode-svg';
+import type { BeneficiaryOrganization, CardBarcodeFormat } from '../types';
+
+interface MembershipCardProps {
+  membership: BeneficiaryOrganization;
+  holderName: string;
+}
+
+// EAN-13 takes 12 digits (the check digit is computed) or a full 13-digit
+// code; anything else falls back to Code 128, which reads any ASCII value.
+function getBarcodeFormat(membershipNumber: string, preferred?: CardBarcodeFormat | null) {
+  if (preferred === 'ean13' && /^\d{12,13}$/.test(membershipNumber)) {
+    return 'EAN13';
+  }
+  return 'CODE128';
+}
+
+function formatMembershipNumber(value: string) {
+  return value.replace(/(.{4})(?=.)/g, '$1 ');
+}
+
+export default function MembershipCard({ membership, holderName }: MembershipCardProps) {
+  const organization = membership.organization;
+  const membershipNumber = membership.membership_number;
+  const [showBarcode, setShowBarcode] = useState(
+    !!organization?.card_barcode_format && organization.card_barcode_format !== 'qr'
+  );
+  const brandColor = organization?.brand_color || '#7C3AED';
+
+  return (
+    <View style={styles.card}>
+      <View style={[styles.cardHeader, { backgroundColor: brandColor }]}>
+        {organization?.logo_url && (
+          <Image
+            source={{ uri: organization.logo_url }}
+            style={styles.logo}
+            resizeMode="contain"
+          />
+        )}
+        <View style={styles.headerInfo}>
+          <Text style={styles.orgName}>{organization?.name || 'Organizacion'}</Text>
+          <Text style={styles.holderName}>{holderName}</Text>
+        </View>
+      </View>
+
+      <View style={styles.cardBody}>
+        {membershipNumber ? (
+          <>
+            <View style={styles.codeContainer}>
+              {showBarcode ? (
+                <Barcode
+                  value={membershipNumber}
+                  format={getBarcodeFormat(membershipNumber, organization?.card_barcode_format)}
+                  singleBarWidth={2}
+                  maxWidth={280}
+                  height={80}
+                  lineColor="#000000"
+                  backgroundColor="#FFFFFF"
+                />
+              ) : (
+                <QRCode
+                  value={membershipNumber}
+                  size={160}
+                  level="M"
+                  bgColor="#FFFFFF"
+                  fgColor="#000000"
+                />
+              )}
+            </View>
+            <Text style={styles.membershipNumber}>
+              {formatMembershipNumber(membershipNumber)}
+            </Text>
+            <TouchableOpacity onPress={() => setShowBarcode((prev) => !prev)}>
+              <Text style={[styles.toggleText, { color: brandColor }]}>
+                {showBarcode ? 'Ver codigo QR' : 'Ver codigo de barras'}
+              </Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <Text style={styles.pendingText}>
+            Tu numero de socio se esta generando. Volve a intentar en unos minutos.
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    marginBottom: 16,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+  },
+  logo: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    marginRight: 12,
+    backgroundColor: '#FFFFFF',
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  orgName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  holderName: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.85)',
+    marginTop: 2,
+  },
+  cardBody: {
+    alignItems: 'center',
+    padding: 20,
+  },
+  codeContainer: {
+    backgroundColor: '#FFFFFF',
+    padding: 8,
+    marginBottom: 12,
+  },
+  membershipNumber: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    letterSpacing: 1,
+    marginBottom: 8,
+  },
+  toggleText: {
+    fontSize: 14,
+    fontWeight: '600',
+    paddingVertical: 4,
+  },
+  pendingText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  FlatList,
+  Image,
+  TouchableOpacity,
+  useWindowDimensions,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Gesture, GestureDetector, GestureHandlerRootView } from 'react-native-gesture-handler';
+import Animated, { useAnimatedStyle, useSharedValue, withTiming } from 'react-native-reanimated';
+import { scheduleOnRN } from 'react-native-worklets';
+
+const MAX_SCALE = 4;
+const DOUBLE_TAP_SCALE = 2.5;
+
+interface ZoomableImageProps {
+  uri: string;
+  width: number;
+  height: number;
+  zoomed: boolean;
+  onZoomChange: (zoomed: boolean) => void;
+}
+
+function ZoomableImage({ uri, width, height, zoomed, onZoomChange }: ZoomableImageProps) {
+  const scale = useSharedValue(1);
+  const savedScale = useSharedValue(1);
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const savedTranslateX = useSharedValue(0);
+  const savedTranslateY = useSharedValue(0);
+
+  const clampTranslation = (value: number, size: number, currentScale: number) => {
+    'worklet';
+    const limit = ((currentScale - 1) * size) / 2;
+    return Math.min(limit, Math.max(-limit, value));
+  };
+
+  const settle = (nextScale: number) => {
+    'worklet';
+    if (nextScale <= 1) {
+      scale.value = withTiming(1);
+      translateX.value = withTiming(0);
+      translateY.value = withTiming(0);
+      savedScale.value = 1;
+      savedTranslateX.value = 0;
+      savedTranslateY.value = 0;
+    } else {
+      savedScale.value = nextScale;
+      savedTranslateX.value = translateX.value;
+      savedTranslateY.value = translateY.value;
+    }
+    scheduleOnRN(onZoomChange, nextScale > 1);
+  };
+
+  const pinch = Gesture.Pinch()
+    .onUpdate((event) => {
+      scale.value = Math.min(MAX_SCALE, Math.max(1, savedScale.value * event.scale));
+    })
+    .onEnd(() => settle(scale.value));
+
+  // Panning only takes over while zoomed in; otherwise swipes page the gallery
+  const pan = Gesture.Pan()
+    .enabled(zoomed)
+    .onUpdate((event) => {
+      translateX.value = clampTranslation(savedTranslateX.value + event.translationX, width, scale.value);
+      translateY.value = clampTranslation(savedTranslateY.value + event.translationY, height, scale.value);
+    })
+    .onEnd(() => {
+      savedTranslateX.value = translateX.value;
+      savedTranslateY.value = translateY.value;
+    });
+
+  const doubleTap = Gesture.Tap()
+    .numberOfTaps(2)
+    .onEnd(() => {
+      const nextScale = savedScale.value > 1 ? 1 : DOUBLE_TAP_SCALE;
+      scale.value = withTiming(nextScale);
+      settle(nextScale);
+    });
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: translateX.value },
+      { translateY: translateY.value },
+      { scale: scale.value },
+    ],
+  }));
+
+  return (
+    <GestureDetector gesture={Gesture.Race(doubleTap, Gesture.Simultaneous(pinch, pan))}>
+      <Animated.View style={[{ width, height }, animatedStyle]}>
+        <Image source={{ uri }} style={{ width, height }} resizeMode="contain" />
+      </Animated.View>
+    </GestureDetector>
+  );
+}
+
+interface ProductGalleryProps {
+  imageUrls: string[];
+  initialIndex: number;
+  visible: boolean;
+  onClose: () => void;
+}
+
+/** Full-screen swipeable gallery; pinch or double tap to zoom an image. */
+export default function ProductGallery({ imageUrls, initialIndex, visible, onClose }: ProductGalleryProps) {
+  const { width, height } = useWindowDimensions();
+  const [activeIndex, setActiveIndex] = useState(initialIndex);
+  const [zoomed, setZoomed] = useState(false);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      onShow={() => {
+        setActiveIndex(initialIndex);
+        setZoomed(false);
+      }}
+      onRequestClose={onClose}
+    >
+      {/* Modals render outside the app root, so gestures need their own root */}
+      <GestureHandlerRootView style={styles.container}>
+        <FlatList
+          data={imageUrls}
+          horizontal
+          pagingEnabled
+          scrollEnabled={!zoomed}
+          initialScrollIndex={initialIndex}
+          getItemLayout={(_, index) => ({ length: width, offset: width * index, index })}
+          showsHorizontalScrollIndicator={false}
+          onMomentumScrollEnd={(event) => {
+            setActiveIndex(Math.round(event.nativeEvent.contentOffset.x / width));
+          }}
+          renderItem={({ item, index }) => (
+            <ZoomableImage
+              uri={item}
+              width={width}
+              height={height}
+              zoomed={zoomed && index === activeIndex}
+              onZoomChange={setZoomed}
+            />
+          )}
+          keyExtractor={(item, index) => `${index}-${item}`}
+        />
+
+        <TouchableOpacity style={styles.closeButton} onPress={onClose} accessibilityLabel="Cerrar galeria">
+          <Ionicons name="close" size={28} color="#FFFFFF" />
+        </TouchableOpacity>
+
+        {imageUrls.length > 1 && (
+          <View style={styles.counter}>
+            <Text style={styles.counterText}>
+              {activeIndex + 1} / {imageUrls.length}
+            </Text>
+          </View>
+        )}
+      </GestureHandlerRootView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 48,
+    right: 16,
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  counter: {
+    position: 'absolute',
+    bottom: 48,
+    alignSelf: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  counterText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,37 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRealtimeStatus } from '../hooks/useRealtimeStatus';
+
+/**
+ * Thin banner shown while live updates are down. Points shown on screen may
+ * be out of date until the connection comes back and resyncs.
+ */
+export default function RealtimeStatusBanner() {
+  const status = useRealtimeStatus();
+
+  if (status !== 'reconnecting') return null;
+
+  return (
+    <View style={styles.banner}>
+      <Ionicons name="sync-outline" size={14} color="#92400E" />
+      <Text style={styles.text}>Reconectando... tus puntos pueden no estar actualizados</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#FEF3C7',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    gap: 6,
+  },
+  text: {
+    fontSize: 12,
+    color: '#92400E',
+  },
+});
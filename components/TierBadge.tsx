@@ -0,0 +1,48 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import type { MembershipTier } from '../types';
+import { tierColor } from '../utils/tiers';
+
+interface TierBadgeProps {
+  tier: MembershipTier;
+  /** Smaller pill for list cards. */
+  compact?: boolean;
+}
+
+export default function TierBadge({ tier, compact = false }: TierBadgeProps) {
+  const color = tierColor(tier);
+
+  return (
+    <View style={[styles.badge, compact && styles.compactBadge, { backgroundColor: color }]}>
+      <Ionicons name="ribbon" size={compact ? 11 : 14} color="#FFFFFF" />
+      <Text style={[styles.text, compact && styles.compactText]}>{tier.name}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    gap: 4,
+  },
+  compactBadge: {
+    borderRadius: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    gap: 3,
+  },
+  text: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  compactText: {
+    fontSize: 11,
+  },
+});
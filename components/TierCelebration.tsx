@@ -0,0 +1,145 @@
+import React, { useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, Animated } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import { dismissTierUpgrade, useMembershipStore } from '../stores/membershipStore';
+import { tierColor } from '../utils/tiers';
+
+/** Shown app-wide when a live points update moves the member up a tier. */
+export default function TierCelebration() {
+  const upgrade = useMembershipStore((state) => state.tierUpgrade);
+  const scale = useRef(new Animated.Value(0.6)).current;
+
+  useEffect(() => {
+    if (!upgrade) return;
+
+    scale.setValue(0.6);
+    Animated.spring(scale, { toValue: 1, friction: 4, useNativeDriver: true }).start();
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+  }, [upgrade, scale]);
+
+  if (!upgrade) return null;
+
+  const color = tierColor(upgrade.tier);
+  const benefits = upgrade.tier.benefits ?? [];
+
+  const handleViewOrganization = () => {
+    dismissTierUpgrade();
+    router.push({
+      pathname: '/(app)/organization/[id]',
+      params: { id: upgrade.organizationId },
+    });
+  };
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={dismissTierUpgrade}>
+      <View style={styles.overlay}>
+        <Animated.View style={[styles.card, { transform: [{ scale }] }]}>
+          <View style={[styles.badge, { backgroundColor: color }]}>
+            <Ionicons name="trophy" size={40} color="#FFFFFF" />
+          </View>
+          <Text style={styles.title}>Subiste de nivel!</Text>
+          <Text style={styles.subtitle}>
+            Ahora eres <Text style={[styles.tierName, { color }]}>{upgrade.tier.name}</Text> en{' '}
+            {upgrade.organizationName}
+          </Text>
+
+          {benefits.length > 0 && (
+            <View style={styles.benefits}>
+              {benefits.map((benefit) => (
+                <View key={benefit} style={styles.benefitRow}>
+                  <Ionicons name="checkmark-circle" size={18} color={color} />
+                  <Text style={styles.benefitText}>{benefit}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+
+          <TouchableOpacity style={[styles.primaryButton, { backgroundColor: color }]} onPress={handleViewOrganization}>
+            <Text style={styles.primaryButtonText}>Ver mis beneficios</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.secondaryButton} onPress={dismissTierUpgrade}>
+            <Text style={styles.secondaryButtonText}>Cerrar</Text>
+          </TouchableOpacity>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  card: {
+    width: '100%',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 20,
+    padding: 24,
+    alignItems: 'center',
+  },
+  badge: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#4B5563',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  tierName: {
+    fontWeight: 'bold',
+  },
+  benefits: {
+    alignSelf: 'stretch',
+    backgroundColor: '#F9FAFB',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+    gap: 8,
+  },
+  benefitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  benefitText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+  },
+  primaryButton: {
+    alignSelf: 'stretch',
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    paddingVertical: 12,
+  },
+  secondaryButtonText: {
+    color: '#6B7280',
+    fontSize: 14,
+  },
+});
@@ -1,8 +1,43 @@
-import React, { createContext, useContext, useEffect, useState, useCallback, useRef } from 'react';
-import { Session, User, RealtimeChannel } from '@supabase/supabase-js';
+import React, { useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import { Session, User } from '@supabase/supabase-js';
+import * as Network from 'expo-network';
 import { supabase } from '../utils/supabase';
 import type { Beneficiary, BeneficiaryOrganization, Organization } from '../types';
-import { setupPushNotifications } from '../utils/pushNotifications';
+import { clearCache } from '../utils/cache';
+import { executeRequest } from '../utils/request';
+import { closeAllRealtime } from '../utils/realtime';
+import { reportError, setReportingUser, trackAction } from '../utils/errorReporting';
+import { clearOfflineCard } from '../utils/offlineCard';
+import { expirationFingerprint, getReminderDays, scheduleExpirationReminders } from '../utils/pointsExpiration';
+import { authStore, setSession, signIn, signUp, useAuthStore } from '../stores/authStore';
+import {
+  beneficiaryStore,
+  fetchBeneficiary,
+  refreshBeneficiary,
+  useBeneficiaryStore,
+} from '../stores/beneficiaryStore';
+import {
+  fetchMemberships,
+  joinOrganization,
+  membershipStore,
+  subscribeToMemberships,
+  useMembershipStore,
+} from '../stores/membershipStore';
+import { goalStore, loadGoals } from '../stores/goalStore';
+import {
+  fetchAllOrganizations,
+  organizationDirectoryStore,
+  useOrganizationDirectoryStore,
+} from '../stores/organizationDirectoryStore';
+
+/**
+ * Session, profile, memberships and the organization directory live in
+ * separate stores (see `stores/`). `AuthProvider` only wires their side
+ * effects; screens should read the slice they need with the store hooks so
+ * unrelated updates do not re-render them. `useAuth` is kept as a facade
+ * over all of them for existing callers.
+ */
 
 type AuthContextType = {
   session: Session | null;
@@ -12,6 +47,11 @@ type AuthContextType = {
   allOrganizations: Organization[];
   loading: boolean;
   organizationsLoading: boolean;
+  /** Last failure loading memberships or the directory, while nothing cached could be shown. */
+  organizationsError: Error | null;
+  isOffline: boolean;
+  /** Online but the server could not be reached; the saved card is shown. */
+  serverUnavailable: boolean;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
   signUp: (email: string, password: string, userData: { first_name: string; last_name: string; phone?: string; document_id?: string }) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
@@ -20,109 +60,67 @@ type AuthContextType = {
   refreshBeneficiary: () => Promise<void>;
 };
 
-const AuthContext = createContext<AuthContextType | undefined>(undefined);
-
-export function AuthProvider({ children }: { children: React.ReactNode }) {
-  const [session, setSession] = useState<Session | null>(null);
-  const [user, setUser] = useState<User | null>(null);
-  const [beneficiary, setBeneficiary] = useState<Beneficiary | null>(null);
-  const [userOrganizations, setUserOrganizations] = useState<BeneficiaryOrganization[]>([]);
-  const [allOrganizations, setAllOrganizations] = useState<Organization[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [organizationsLoading, setOrganizationsLoading] = useState(false);
-
-  const fetchUserOrganizations = useCallback(async (beneficiaryId: string) => {
-    try {
-      setOrganizationsLoading(true);
-      const { data, error } = await supabase
-        .from('beneficiary_organization')
-        .select(`
-          *,
-          organization:organization_id (
-            id,
-            name,
-            business_name,
-            tax_id,
-            logo_url,
-            creation_date
-          )
-        `)
-        .eq('beneficiary_id', beneficiaryId)
-        .eq('is_active', true);
-
-      if (error) {
-        return;
-      }
-
-      setUserOrganizations(data || []);
-    } catch (error) {
-    } finally {
-      setOrganizationsLoading(false);
-    }
-  }, []);
-
-  const fetchAllOrganizations = useCallback(async () => {
-    try {
-      const { data, error } = await supabase
-        .from('organization')
-        .select('*')
-        .order('name');
-
-      if (error) {
-        return;
-      }
+export async function refreshOrganizations() {
+  const beneficiaryId = beneficiaryStore.getState().beneficiary?.id;
+  if (beneficiaryId) {
+    await Promise.all([
+      fetchMemberships(beneficiaryId, true),
+      fetchAllOrganizations(true)
+    ]);
+  }
+}
 
-      setAllOrganizations(data || []);
-    } catch (error) {
-    }
-  }, []);
+const SERVER_RETRY_INTERVAL_MS = 30000;
+
+export async function signOut() {
+  trackAction('signOut');
+  closeAllRealtime();
+  scheduleExpirationReminders([], null)
+    .catch((error) => reportError(error, 'AuthContext.clearExpirationReminders', { level: 'warning' }));
+  await clearOfflineCard();
+  await clearCache();
+  await supabase.auth.signOut();
+  beneficiaryStore.reset();
+  membershipStore.reset();
+  goalStore.reset();
+  organizationDirectoryStore.setState({ error: null });
+  authStore.setState({ serverUnavailable: false });
+}
 
-  const refreshOrganizations = useCallback(async () => {
-    if (beneficiary?.id) {
-      await Promise.all([
-        fetchUserOrganizations(beneficiary.id),
-        fetchAllOrganizations()
-      ]);
-    }
-  }, [beneficiary?.id, fetchUserOrganizations, fetchAllOrganizations]);
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const beneficiaryId = useBeneficiaryStore((state) => state.beneficiary?.id);
+  const hasSession = useAuthStore((state) => !!state.session?.user);
+  const isOffline = useAuthStore((state) => state.isOffline);
+  const serverUnavailable = useAuthStore((state) => state.serverUnavailable);
+  const memberships = useMembershipStore((state) => state.memberships);
+  const membershipsLoaded = useMembershipStore((state) => state.loaded);
 
   useEffect(() => {
     let mounted = true;
-    let timeoutId: ReturnType<typeof setTimeout>;
+    const controller = new AbortController();
 
     const initializeAuth = async () => {
       try {
-        const timeoutPromise = new Promise<never>((_, reject) => {
-          timeoutId = setTimeout(() => {
-            reject(new Error('Auth initialization timeout'));
-          }, 10000);
-        });
-
-        const sessionPromise = supabase.auth.getSession();
-
-        const { data: { session } } = await Promise.race([
-          sessionPromise,
-          timeoutPromise
-        ]);
-
-        clearTimeout(timeoutId);
+        const { data: { session } } = await executeRequest(
+          () => supabase.auth.getSession(),
+          { timeoutMs: 10000, signal: controller.signal }
+        );
 
         if (!mounted) return;
 
         setSession(session);
-        setUser(session?.user ?? null);
-        
+
         if (session?.user) {
           await fetchBeneficiary(session.user.id);
         } else {
-          setLoading(false);
+          authStore.setState({ loading: false });
         }
       } catch (error) {
+        reportError(error, 'AuthContext.initializeAuth');
         if (mounted) {
           setSession(null);
-          setUser(null);
-          setBeneficiary(null);
-          setLoading(false);
+          beneficiaryStore.setState({ beneficiary: null });
+          authStore.setState({ loading: false });
         }
       }
     };
@@ -131,300 +129,125 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
     const { data: { subscription } } = supabase.auth.onAuthStateChange(async (_event, session) => {
       if (!mounted) return;
-      
+
       setSession(session);
-      setUser(session?.user ?? null);
       if (session?.user) {
         await fetchBeneficiary(session.user.id);
       } else {
-        setBeneficiary(null);
-        setUserOrganizations([]);
-        setLoading(false);
+        beneficiaryStore.setState({ beneficiary: null });
+        membershipStore.setState({ memberships: [] });
+        authStore.setState({ loading: false });
       }
     });
 
     return () => {
       mounted = false;
-      clearTimeout(timeoutId);
+      controller.abort();
       subscription.unsubscribe();
     };
   }, []);
 
-  // Ref to store the realtime channel
-  const organizationsChannelRef = useRef<RealtimeChannel | null>(null);
-
-  // Fetch organizations and set up realtime subscription when beneficiary changes
+  // Track connectivity so the card can be shown from the offline cache
   useEffect(() => {
-    if (beneficiary?.id) {
-      fetchUserOrganizations(beneficiary.id);
-      fetchAllOrganizations();
-
-      // Set up realtime subscription for organization membership changes
-      const channel = supabase
-        .channel(`beneficiary-orgs-${beneficiary.id}`)
-        .on(
-          'postgres_changes',
-          {
-            event: '*', // Listen to INSERT, UPDATE, DELETE
-            schema: 'public',
-            table: 'beneficiary_organization',
-            filter: `beneficiary_id=eq.${beneficiary.id}`,
-          },
-          async (payload) => {
-            
-            if (payload.eventType === 'UPDATE' && payload.new) {
-              // For updates, optimistically update the state
-              setUserOrganizations((prev) => {
-                const updated = prev.map((org) => {
-                  if (org.id === payload.new.id) {
-                    return {
-                      ...org,
-                      available_points: payload.new.available_points,
-                      total_points_earned: payload.new.total_points_earned,
-                      total_points_redeemed: payload.new.total_points_redeemed,
-                      updated_at: payload.new.updated_at,
-                    };
-                  }
-                  return org;
-                });
-                return updated;
-              });
-            } else {
-              // For INSERT and DELETE, refetch all organizations
-              await fetchUserOrganizations(beneficiary.id);
-            }
-          }
-        )
-        .subscribe((status) => {
-          if (status === 'SUBSCRIBED') {
-            // Subscribed to organization changes
-          } else if (status === 'CHANNEL_ERROR') {
-            // Error subscribing to organization changes
-          } else if (status === 'TIMED_OUT') {
-            // Subscription timed out
-          }
-        });
-
-      organizationsChannelRef.current = channel;
-
-      // Cleanup subscription on unmount or beneficiary change
-      return () => {
-        if (organizationsChannelRef.current) {
-          supabase.removeChannel(organizationsChannelRef.current);
-          organizationsChannelRef.current = null;
-        }
-      };
-    }
-  }, [beneficiary?.id, fetchUserOrganizations, fetchAllOrganizations]);
-
-  const fetchBeneficiary = async (authUserId: string) => {
-    try {
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => {
-          reject(new Error('fetchBeneficiary timeout'));
-        }, 8000);
-      });
-
-      const queryPromise = supabase
-        .from('beneficiary')
-        .select('*, user_role:role_id(name)')
-        .eq('auth_user_id', authUserId)
-        .single();
-
-      const { data, error } = await Promise.race([
-        queryPromise,
-        timeoutPromise
-      ]);
-
-      if (error) {
-        await supabase.auth.signOut();
-        setBeneficiary(null);
-      } else if (data) {
-        const roleName = (data.user_role as any)?.name;
-        if (roleName !== 'final_user') {
-          await supabase.auth.signOut();
-          setBeneficiary(null);
-        } else {
-          setBeneficiary(data);
-          setupPushNotifications().catch(error => {
-          });
-        }
-      }
-    } catch (error) {
-      setBeneficiary(null);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const signIn = async (email: string, password: string): Promise<{ error: Error | null }> => {
-    try {
-      const { data, error } = await supabase.auth.signInWithPassword({
-        email,
-        password,
-      });
+    const applyNetworkState = (state: Network.NetworkState) =>
+      authStore.setState({ isOffline: state.isInternetReachable === false || state.isConnected === false });
 
-      if (error) {
-        return { error };
-      }
-
-      if (data.user) {
-        // Verify this user is a beneficiary with final_user role
-        const { data: beneficiaryData, error: beneficiaryError } = await supabase
-          .from('beneficiary')
-          .select('*, user_role:role_id(name)')
-          .eq('auth_user_id', data.user.id)
-          .single();
-
-        if (beneficiaryError || !beneficiaryData) {
-          await supabase.auth.signOut();
-          return { error: new Error('Esta cuenta no está registrada como usuario final. Por favor usa la app correcta.') };
-        }
+    Network.getNetworkStateAsync()
+      .then(applyNetworkState)
+      .catch((error) => reportError(error, 'AuthContext.networkState', { level: 'warning' }));
 
-        const roleName = (beneficiaryData.user_role as any)?.name;
-        if (roleName !== 'final_user') {
-          await supabase.auth.signOut();
-          return { error: new Error('Esta cuenta no tiene permisos de usuario final.') };
-        }
-      }
-
-      return { error: null };
-    } catch (error) {
-      return { error: error as Error };
-    }
-  };
-
-  const signUp = async (
-    email: string,
-    password: string,
-    userData: { first_name: string; last_name: string; phone?: string; document_id?: string }
-  ): Promise<{ error: Error | null }> => {
-    try {
-      // Create the auth user with metadata - the database trigger will create the beneficiary record
-      const { data: authData, error: authError } = await supabase.auth.signUp({
-        email,
-        password,
-        options: {
-          emailRedirectTo: 'https://puntos-club-admin.vercel.app/auth/email-confirmed',
-          data: {
-            first_name: userData.first_name,
-            last_name: userData.last_name,
-            phone: userData.phone || null,
-            document_id: userData.document_id || null,
-          },
-        },
-      });
+    const subscription = Network.addNetworkStateListener(applyNetworkState);
 
-      if (authError) {
-        return { error: authError };
-      }
+    return () => subscription.remove();
+  }, []);
 
-      if (!authData.user) {
-        return { error: new Error('Error al crear la cuenta') };
-      }
+  useEffect(() => {
+    setReportingUser(beneficiaryId ?? null);
+  }, [beneficiaryId]);
 
-      // The beneficiary record is automatically created by the database trigger
-      return { error: null };
-    } catch (error) {
-      return { error: error as Error };
+  // Fetch organizations and savings goals, and keep memberships live when the beneficiary changes
+  useEffect(() => {
+    if (beneficiaryId) {
+      fetchMemberships(beneficiaryId);
+      fetchAllOrganizations();
+      loadGoals(beneficiaryId);
+      return subscribeToMemberships(beneficiaryId);
     }
-  };
+  }, [beneficiaryId]);
 
-  const joinOrganization = async (organizationId: string): Promise<{ error: Error | null }> => {
-    if (!beneficiary?.id) {
-      return { error: new Error('No hay usuario autenticado') };
+  // Keep local expiration reminders in line with the latest buckets. Keyed on
+  // the buckets so realtime balance updates don't reschedule anything; the
+  // profile screen reschedules when the reminder days change. Waits for a
+  // real load: an empty list would read as every bucket being gone.
+  const expirationKey = expirationFingerprint(memberships);
+  useEffect(() => {
+    if (!beneficiaryId || !membershipsLoaded) return;
+    getReminderDays()
+      .then((days) => scheduleExpirationReminders(membershipStore.getState().memberships, days))
+      .catch((error) => reportError(error, 'AuthContext.scheduleExpirationReminders', { level: 'warning' }));
+  }, [beneficiaryId, membershipsLoaded, expirationKey]);
+
+  // Reconcile once connectivity returns: reload the profile (which also tops
+  // up the offline token batch) and pick up points earned while offline.
+  const wasOfflineRef = useRef(false);
+  useEffect(() => {
+    if (wasOfflineRef.current && !isOffline && hasSession) {
+      refreshBeneficiary();
+      refreshOrganizations();
     }
+    wasOfflineRef.current = isOffline;
+  }, [isOffline, hasSession]);
 
-    try {
-      // Check if already joined
-      const { data: existing } = await supabase
-        .from('beneficiary_organization')
-        .select('id, is_active')
-        .eq('beneficiary_id', beneficiary.id)
-        .eq('organization_id', organizationId)
-        .single();
-
-      if (existing) {
-        if (existing.is_active) {
-          return { error: new Error('Ya perteneces a esta organizacion') };
-        }
-        // Reactivate membership
-        const { error: updateError } = await supabase
-          .from('beneficiary_organization')
-          .update({ is_active: true })
-          .eq('id', existing.id);
-
-        if (updateError) {
-          return { error: new Error('Error al reactivar membresia: ' + updateError.message) };
-        }
-      } else {
-        // Create new membership
-        const { error: insertError } = await supabase
-          .from('beneficiary_organization')
-          .insert({
-            beneficiary_id: beneficiary.id,
-            organization_id: organizationId,
-            available_points: 0,
-            total_points_earned: 0,
-            total_points_redeemed: 0,
-            is_active: true,
-          });
-
-        if (insertError) {
-          return { error: new Error('Error al unirse a la organizacion: ' + insertError.message) };
-        }
-      }
-
-      // Refresh organizations list
-      await fetchUserOrganizations(beneficiary.id);
-      return { error: null };
-    } catch (error) {
-      return { error: error as Error };
-    }
-  };
+  // Online but the profile load failed: retry on a timer and whenever the
+  // app comes back to the foreground, until the server answers
+  useEffect(() => {
+    if (!serverUnavailable || isOffline || !hasSession) return;
 
-  const refreshBeneficiary = useCallback(async () => {
-    if (user?.id) {
-      await fetchBeneficiary(user.id);
-    }
-  }, [user?.id]);
+    const retry = () => {
+      refreshBeneficiary().then(() => {
+        if (!authStore.getState().serverUnavailable) refreshOrganizations();
+      });
+    };
+    const intervalId = setInterval(retry, SERVER_RETRY_INTERVAL_MS);
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') retry();
+    });
 
-  const signOut = async () => {
-    // Clean up realtime subscription
-    if (organizationsChannelRef.current) {
-      supabase.removeChannel(organizationsChannelRef.current);
-      organizationsChannelRef.current = null;
-    }
-    await supabase.auth.signOut();
-    setBeneficiary(null);
-    setUserOrganizations([]);
-  };
+    return () => {
+      clearInterval(intervalId);
+      subscription.remove();
+    };
+  }, [serverUnavailable, isOffline, hasSession]);
 
-  return (
-    <AuthContext.Provider value={{
-      session,
-      user,
-      beneficiary,
-      userOrganizations,
-      allOrganizations,
-      loading,
-      organizationsLoading,
-      signIn,
-      signUp,
-      signOut,
-      joinOrganization,
-      refreshOrganizations,
-      refreshBeneficiary
-    }}>
-      {children}
-    </AuthContext.Provider>
-  );
+  return <>{children}</>;
 }
 
-export function useAuth() {
-  const context = useContext(AuthContext);
-  if (context === undefined) {
-    throw new Error('useAuth must be used within an AuthProvider');
-  }
-  return context;
+/**
+ * Everything the old context exposed, in one object. Subscribes to every
+ * store, so prefer the individual store hooks in new code.
+ */
+export function useAuth(): AuthContextType {
+  const { session, user, loading, isOffline, serverUnavailable } = useAuthStore((state) => state);
+  const beneficiary = useBeneficiaryStore((state) => state.beneficiary);
+  const memberships = useMembershipStore((state) => state);
+  const directory = useOrganizationDirectoryStore((state) => state);
+
+  return {
+    session,
+    user,
+    beneficiary,
+    userOrganizations: memberships.memberships,
+    allOrganizations: directory.organizations,
+    loading,
+    organizationsLoading: memberships.loading,
+    organizationsError: memberships.error ?? directory.error,
+    isOffline,
+    serverUnavailable,
+    signIn,
+    signUp,
+    signOut,
+    joinOrganization,
+    refreshOrganizations,
+    refreshBeneficiary,
+  };
 }
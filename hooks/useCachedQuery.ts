@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { staleWhileRevalidate, type CachePolicy } from '../utils/cache';
+import { reportError } from '../utils/errorReporting';
+import type { RepositoryResult } from '../repositories/errors';
+
+/**
+ * Loads `fetcher` through the persistent cache. `loading` is only true while
+ * there is nothing to show yet; background revalidations keep the previous
+ * data on screen. `fetcher` must be stable (wrap it in `useCallback`) and
+ * should pass the signal on, so leaving the screen cancels the request.
+ */
+export function useCachedQuery<T>(
+  key: string | null,
+  policy: CachePolicy,
+  fetcher: (signal: AbortSignal) => Promise<RepositoryResult<T>>
+) {
+  const [data, setData] = useState<T | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const load = useCallback(async (force: boolean) => {
+    if (!key) return;
+
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const isCurrent = () => !controller.signal.aborted;
+
+    const result = await staleWhileRevalidate(
+      key,
+      policy,
+      () => fetcher(controller.signal),
+      (next) => {
+        if (!isCurrent()) return;
+        setData(next);
+        setLoading(false);
+      },
+      { force }
+    );
+
+    if (!isCurrent()) return;
+    if (result.error) {
+      reportError(result.error, `useCachedQuery:${key}`, { level: result.hadCache ? 'warning' : 'error' });
+    }
+    setError(result.error);
+    setLoading(false);
+  }, [key, policy, fetcher]);
+
+  useEffect(() => {
+    setData(null);
+    setLoading(true);
+    load(false);
+
+    return () => {
+      controllerRef.current?.abort();
+    };
+  }, [load]);
+
+  const refresh = useCallback(() => load(true), [load]);
+
+  return { data, loading, error, refresh };
+}
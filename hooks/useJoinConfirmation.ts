@@ -0,0 +1,60 @@
+import { Alert } from 'react-native';
+import { router } from 'expo-router';
+import { refreshOrganizations } from '../contexts/AuthContext';
+import { joinOrganization } from '../stores/membershipStore';
+
+/**
+ * Confirmation flow shared by every way of finding an organization to join
+ * (scanned QR, typed code). `onSettled` runs when the user cancels or the
+ * join fails, so the caller can re-enable its input.
+ */
+export function useJoinConfirmation() {
+  const confirmJoin = (organizationId: string, organizationName: string, onSettled: () => void) => {
+    Alert.alert(
+      'Unirse a ' + organizationName,
+      `Quieres unirte a ${organizationName} para empezar a acumular puntos?`,
+      [
+        {
+          text: 'Cancelar',
+          style: 'cancel',
+          onPress: onSettled,
+        },
+        {
+          text: 'Unirse',
+          onPress: async () => {
+            const { error } = await joinOrganization(organizationId);
+
+            if (error) {
+              Alert.alert('Error', error.message, [
+                { text: 'OK', onPress: onSettled }
+              ]);
+            } else {
+              await refreshOrganizations();
+              Alert.alert(
+                'Exito',
+                `Te has unido a ${organizationName}. Ya puedes empezar a acumular puntos!`,
+                [
+                  {
+                    text: 'Ver Organizacion',
+                    onPress: () => {
+                      router.replace({
+                        pathname: '/(app)/organization/[id]',
+                        params: { id: organizationId }
+                      });
+                    }
+                  },
+                  {
+                    text: 'Volver',
+                    onPress: () => router.back()
+                  }
+                ]
+              );
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return { confirmJoin };
+}
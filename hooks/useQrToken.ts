@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react';
+import {
+  buildOfflineQrToken,
+  fetchQrSecret,
+  generateQrToken,
+  getQrTokenCounter,
+  type BeneficiaryQrToken,
+} from '../utils/qrToken';
+import { loadOfflineCard, pickOfflineToken, type OfflineCard } from '../utils/offlineCard';
+
+/**
+ * Keeps a signed beneficiary QR token fresh. Returns the current token and
+ * the seconds left before it rotates, ticking once per second. Falls back to
+ * the pre-provisioned offline batch when the device has no connectivity or
+ * the signing secret could not be fetched; `retry` fetches the secret again.
+ */
+export function useQrToken(beneficiaryId: string | undefined, isOffline: boolean = false) {
+  const [secret, setSecret] = useState<string | null>(null);
+  const [offlineCard, setOfflineCard] = useState<OfflineCard | null>(null);
+  const [token, setToken] = useState<BeneficiaryQrToken | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [error, setError] = useState<Error | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    setSecret(null);
+    setToken(null);
+  }, [beneficiaryId]);
+
+  useEffect(() => {
+    let mounted = true;
+
+    if (!beneficiaryId) return;
+
+    loadOfflineCard().then((card) => {
+      if (mounted) setOfflineCard(card);
+    });
+
+    if (!isOffline && !secret) {
+      fetchQrSecret().then(({ secret, error }) => {
+        if (!mounted) return;
+        setSecret(secret);
+        setError(error);
+      });
+    }
+
+    return () => {
+      mounted = false;
+    };
+  }, [beneficiaryId, isOffline, secret, attempt]);
+
+  const offline = isOffline || !secret;
+
+  useEffect(() => {
+    if (!beneficiaryId) return;
+
+    const tick = () => {
+      const now = Date.now();
+      let next: BeneficiaryQrToken | null = null;
+
+      if (!offline && secret) {
+        const counter = getQrTokenCounter(now);
+        next = generateQrToken(beneficiaryId, secret, counter);
+      } else if (offlineCard?.beneficiary.id === beneficiaryId) {
+        const offlineToken = pickOfflineToken(offlineCard, now);
+        next = offlineToken ? buildOfflineQrToken(beneficiaryId, offlineToken) : null;
+      }
+
+      setToken((prev) => (prev && next && prev.value === next.value ? prev : next));
+      setSecondsLeft(next ? Math.max(0, Math.ceil((next.expiresAt - now) / 1000)) : 0);
+    };
+
+    tick();
+    const intervalId = setInterval(tick, 1000);
+
+    return () => clearInterval(intervalId);
+  }, [beneficiaryId, secret, offline, offlineCard]);
+
+  const retry = () => {
+    setError(null);
+    setAttempt((current) => current + 1);
+  };
+
+  return { token, secondsLeft, error, offline, retry };
+}
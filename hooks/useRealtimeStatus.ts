@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getRealtimeStatus, subscribeToRealtimeStatus } from '../utils/realtime';
+
+/** Aggregate status of every open realtime channel. */
+export function useRealtimeStatus() {
+  return useSyncExternalStore(subscribeToRealtimeStatus, getRealtimeStatus);
+}
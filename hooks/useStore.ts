@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import type { Store } from '../utils/store';
+
+/**
+ * Subscribes to the part of `store` returned by `selector`. The selector must
+ * return something already in the state (a field, or the state itself), not
+ * a new object or array, or the component re-renders on every change.
+ */
+export function useStore<S, T>(store: Store<S>, selector: (state: S) => T): T {
+  return useSyncExternalStore(store.subscribe, () => selector(store.getState()));
+}
@@ -0,0 +1,70 @@
+import { supabase } from '../utils/supabase';
+import { executeQuery, type RequestOptions } from '../utils/request';
+import type { Address } from '../types';
+import type { TablesInsert } from '../types/database';
+import { fail, ok, type RepositoryResult } from './errors';
+
+export type AddressInput = Omit<TablesInsert<'address'>, 'id'>;
+
+export async function getAddress(
+  addressId: string,
+  options: RequestOptions = {}
+): Promise<RepositoryResult<Address | null>> {
+  try {
+    const data = await executeQuery(
+      (signal) => supabase
+        .from('address')
+        .select('*')
+        .eq('id', addressId)
+        .abortSignal(signal)
+        .maybeSingle(),
+      { idempotent: true, ...options }
+    );
+
+    return ok(data);
+  } catch (error) {
+    return fail(error);
+  }
+}
+
+export async function createAddress(
+  address: AddressInput,
+  options: RequestOptions = {}
+): Promise<RepositoryResult<Address>> {
+  try {
+    const data = await executeQuery(
+      (signal) => supabase
+        .from('address')
+        .insert(address)
+        .select()
+        .abortSignal(signal)
+        .single(),
+      options
+    );
+
+    return ok(data);
+  } catch (error) {
+    return fail(error);
+  }
+}
+
+export async function updateAddress(
+  addressId: string,
+  address: AddressInput,
+  options: RequestOptions = {}
+): Promise<RepositoryResult<null>> {
+  try {
+    await executeQuery(
+      (signal) => supabase
+        .from('address')
+        .update(address)
+        .eq('id', addressId)
+        .abortSignal(signal),
+      { idempotent: true, ...options }
+    );
+
+    return ok(null);
+  } catch (error) {
+    return fail(error);
+  }
+}
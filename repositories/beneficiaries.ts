@@ -0,0 +1,52 @@
+import { supabase } from '../utils/supabase';
+import { executeQuery, type RequestOptions } from '../utils/request';
+import type { Beneficiary } from '../types';
+import type { TablesUpdate } from '../types/database';
+import { fail, ok, type RepositoryResult } from './errors';
+
+export type BeneficiaryWithRole = {
+  beneficiary: Beneficiary;
+  roleName: string | null;
+};
+
+export async function getBeneficiaryByAuthUser(
+  authUserId: string,
+  options: RequestOptions = {}
+): Promise<RepositoryResult<BeneficiaryWithRole>> {
+  try {
+    const { user_role, ...beneficiary } = await executeQuery(
+      (signal) => supabase
+        .from('beneficiary')
+        .select('*, user_role:role_id(name)')
+        .eq('auth_user_id', authUserId)
+        .abortSignal(signal)
+        .single(),
+      { idempotent: true, ...options }
+    );
+
+    return ok({ beneficiary, roleName: user_role?.name ?? null });
+  } catch (error) {
+    return fail(error);
+  }
+}
+
+export async function updateBeneficiary(
+  beneficiaryId: string,
+  values: Pick<TablesUpdate<'beneficiary'>, 'first_name' | 'last_name' | 'phone' | 'document_id' | 'address_id'>,
+  options: RequestOptions = {}
+): Promise<RepositoryResult<null>> {
+  try {
+    await executeQuery(
+      (signal) => supabase
+        .from('beneficiary')
+        .update(values)
+        .eq('id', beneficiaryId)
+        .abortSignal(signal),
+      { idempotent: true, ...options }
+    );
+
+    return ok(null);
+  } catch (error) {
+    return fail(error);
+  }
+}
@@ -0,0 +1,43 @@
+import { toRequestError, type RequestErrorKind } from '../utils/request';
+
+/**
+ * Error returned by every repository call. Wraps PostgREST errors and thrown
+ * exceptions alike so screens can tell "failed" apart from "no data", and
+ * `kind` tells a dropped connection apart from an expired session.
+ */
+export class DataError extends Error {
+  kind: RequestErrorKind;
+  code: string | null;
+  details: string | null;
+
+  constructor(
+    message: string,
+    code: string | null = null,
+    details: string | null = null,
+    kind: RequestErrorKind = 'client'
+  ) {
+    super(message);
+    this.name = 'DataError';
+    this.kind = kind;
+    this.code = code;
+    this.details = details;
+  }
+
+  static from(error: unknown): DataError {
+    if (error instanceof DataError) return error;
+    const requestError = toRequestError(error);
+    return new DataError(requestError.message, requestError.code, requestError.details, requestError.kind);
+  }
+}
+
+export type RepositoryResult<T> =
+  | { data: T; error: null }
+  | { data: null; error: DataError };
+
+export function ok<T>(data: T): RepositoryResult<T> {
+  return { data, error: null };
+}
+
+export function fail<T>(error: unknown): RepositoryResult<T> {
+  return { data: null, error: DataError.from(error) };
+}
@@ -0,0 +1,139 @@
+import { supabase } from '../utils/supabase';
+import { executeQuery, type RequestOptions } from '../utils/request';
+import type { BeneficiaryOrganization } from '../types';
+import { fail, ok, type RepositoryResult } from './errors';
+import { ORGANIZATION_COLUMNS } from './organizations';
+
+const MEMBERSHIP_SELECT = `
+  id,
+  beneficiary_id,
+  organization_id,
+  membership_number,
+  available_points,
+  total_points_earned,
+  total_points_redeemed,
+  held_points,
+  points_earned_last_12_months,
+  joined_date,
+  is_active,
+  organization:organization_id (
+    ${ORGANIZATION_COLUMNS},
+    tiers:membership_tier (id, name, min_points, color, benefits)
+  )
+` as const;
+
+function withoutTiers<T extends { tiers: unknown }>({ tiers: _tiers, ...organization }: T) {
+  return organization;
+}
+
+export async function listActiveMemberships(
+  beneficiaryId: string,
+  options: RequestOptions = {}
+): Promise<RepositoryResult<BeneficiaryOrganization[]>> {
+  try {
+    const [data, expirations] = await Promise.all([
+      executeQuery(
+        (signal) => supabase
+          .from('beneficiary_organization')
+          .select(MEMBERSHIP_SELECT)
+          .eq('beneficiary_id', beneficiaryId)
+          .eq('is_active', true)
+          .abortSignal(signal),
+        { idempotent: true, ...options }
+      ),
+      executeQuery(
+        (signal) => supabase
+          .from('points_expiration')
+          .select('organization_id, points, expires_at')
+          .eq('beneficiary_id', beneficiaryId)
+          .gt('expires_at', new Date().toISOString())
+          .order('expires_at', { ascending: true })
+          .abortSignal(signal),
+        { idempotent: true, ...options }
+      ),
+    ]);
+
+    return ok(data.map(({ organization, ...membership }) => ({
+      ...membership,
+      organization: organization ? withoutTiers(organization) : undefined,
+      tiers: [...(organization?.tiers ?? [])].sort((a, b) => a.min_points - b.min_points),
+      expiring_points: expirations
+        .filter((bucket) => bucket.organization_id === membership.organization_id)
+        .map(({ points, expires_at }) => ({ points, expires_at })),
+    })));
+  } catch (error) {
+    return fail(error);
+  }
+}
+
+export async function findMembership(
+  beneficiaryId: string,
+  organizationId: string,
+  options: RequestOptions = {}
+): Promise<RepositoryResult<{ id: string; is_active: boolean } | null>> {
+  try {
+    const data = await executeQuery(
+      (signal) => supabase
+        .from('beneficiary_organization')
+        .select('id, is_active')
+        .eq('beneficiary_id', beneficiaryId)
+        .eq('organization_id', organizationId)
+        .abortSignal(signal)
+        .maybeSingle(),
+      { idempotent: true, ...options }
+    );
+
+    return ok(data);
+  } catch (error) {
+    return fail(error);
+  }
+}
+
+export async function createMembership(
+  beneficiaryId: string,
+  organizationId: string,
+  options: RequestOptions = {}
+): Promise<RepositoryResult<null>> {
+  try {
+    await executeQuery(
+      (signal) => supabase
+        .from('beneficiary_organization')
+        .insert({
+          beneficiary_id: beneficiaryId,
+          organization_id: organizationId,
+          available_points: 0,
+          total_points_earned: 0,
+          total_points_redeemed: 0,
+          is_active: true,
+        })
+        .abortSignal(signal),
+      options
+    );
+
+    return ok(null);
+  } catch (error) {
+    return fail(error);
+  }
+}
+
+export async function setMembershipActive(
+  membershipId: string,
+  isActive: boolean,
+  options: RequestOptions = {}
+): Promise<RepositoryResult<null>> {
+  try {
+    // Setting a flag to a fixed value is safe to repeat.
+    await executeQuery(
+      (signal) => supabase
+        .from('beneficiary_organization')
+        .update({ is_active: isActive })
+        .eq('id', membershipId)
+        .abortSignal(signal),
+      { idempotent: true, ...options }
+    );
+
+    return ok(null);
+  } catch (error) {
+    return fail(error);
+  }
+}
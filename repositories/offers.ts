@@ -0,0 +1,29 @@
+import { supabase } from '../utils/supabase';
+import { executeQuery, type RequestOptions } from '../utils/request';
+import type { ActiveOffer } from '../types';
+import { fail, ok, type RepositoryResult } from './errors';
+
+export async function listActiveOffers(
+  organizationId: string,
+  { branchId = null, ...options }: RequestOptions & { branchId?: string | null } = {}
+): Promise<RepositoryResult<ActiveOffer[]>> {
+  try {
+    const data = await executeQuery(
+      (signal) => supabase
+        .rpc('get_active_offers', {
+          p_organization_id: organizationId,
+          p_branch_id: branchId,
+          p_check_time: new Date().toISOString(),
+        })
+        .abortSignal(signal),
+      { idempotent: true, ...options }
+    );
+
+    return ok(data.map((offer) => ({
+      ...offer,
+      config: (offer.config ?? {}) as ActiveOffer['config'],
+    })));
+  } catch (error) {
+    return fail(error);
+  }
+}
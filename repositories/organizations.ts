@@ -0,0 +1,45 @@
+import { supabase } from '../utils/supabase';
+import { executeQuery, type RequestOptions } from '../utils/request';
+import type { Organization } from '../types';
+import { fail, ok, type RepositoryResult } from './errors';
+
+export const ORGANIZATION_COLUMNS =
+  'id, name, business_name, tax_id, logo_url, brand_color, card_barcode_format, tier_basis, creation_date';
+
+export async function listOrganizations(options: RequestOptions = {}): Promise<RepositoryResult<Organization[]>> {
+  try {
+    const data = await executeQuery(
+      (signal) => supabase
+        .from('organization')
+        .select(ORGANIZATION_COLUMNS)
+        .order('name')
+        .abortSignal(signal),
+      { idempotent: true, ...options }
+    );
+
+    return ok(data);
+  } catch (error) {
+    return fail(error);
+  }
+}
+
+export async function getOrganization(
+  organizationId: string,
+  options: RequestOptions = {}
+): Promise<RepositoryResult<Organization | null>> {
+  try {
+    const data = await executeQuery(
+      (signal) => supabase
+        .from('organization')
+        .select(ORGANIZATION_COLUMNS)
+        .eq('id', organizationId)
+        .abortSignal(signal)
+        .maybeSingle(),
+      { idempotent: true, ...options }
+    );
+
+    return ok(data);
+  } catch (error) {
+    return fail(error);
+  }
+}
@@ -0,0 +1,98 @@
+import { supabase } from '../utils/supabase';
+import { executeQuery, type RequestOptions } from '../utils/request';
+import type { PointsLedgerEntry } from '../types';
+import { fail, ok, type RepositoryResult } from './errors';
+
+export const LEDGER_PAGE_SIZE = 30;
+
+const LEDGER_SELECT = `
+  *,
+  branch:branch_id(id, name),
+  product:product_id(id, name)
+` as const;
+
+/** Same tie-breaking cursor as redemption history: date first, then id. */
+export type LedgerCursor = {
+  occurredAt: string;
+  id: string;
+};
+
+export type LedgerPage = {
+  items: PointsLedgerEntry[];
+  nextCursor: LedgerCursor | null;
+};
+
+export async function listLedgerEntries(
+  beneficiaryId: string,
+  organizationId: string,
+  { cursor = null, limit = LEDGER_PAGE_SIZE, ...options }: RequestOptions & {
+    cursor?: LedgerCursor | null;
+    limit?: number;
+  } = {}
+): Promise<RepositoryResult<LedgerPage>> {
+  try {
+    const data = await executeQuery(
+      (signal) => {
+        let query = supabase
+          .from('points_ledger')
+          .select(LEDGER_SELECT)
+          .eq('beneficiary_id', beneficiaryId)
+          .eq('organization_id', organizationId);
+
+        if (cursor) {
+          query = query.or(
+            `occurred_at.lt."${cursor.occurredAt}",` +
+            `and(occurred_at.eq."${cursor.occurredAt}",id.lt."${cursor.id}")`
+          );
+        }
+
+        return query
+          .order('occurred_at', { ascending: false })
+          .order('id', { ascending: false })
+          .limit(limit + 1)
+          .abortSignal(signal);
+      },
+      { idempotent: true, ...options }
+    );
+
+    const rows = data.slice(0, limit);
+    const last = rows[rows.length - 1];
+
+    return ok({
+      items: rows.map(({ branch, product, ...entry }) => ({
+        ...entry,
+        branch: branch ?? undefined,
+        product: product ?? undefined,
+      })),
+      nextCursor: data.length > limit && last
+        ? { occurredAt: last.occurred_at, id: last.id }
+        : null,
+    });
+  } catch (error) {
+    return fail(error);
+  }
+}
+
+export async function getLedgerEntry(
+  entryId: string,
+  options: RequestOptions = {}
+): Promise<RepositoryResult<PointsLedgerEntry | null>> {
+  try {
+    const data = await executeQuery(
+      (signal) => supabase
+        .from('points_ledger')
+        .select(LEDGER_SELECT)
+        .eq('id', entryId)
+        .abortSignal(signal)
+        .maybeSingle(),
+      { idempotent: true, ...options }
+    );
+
+    if (!data) return ok(null);
+
+    const { branch, product, ...entry } = data;
+    return ok({ ...entry, branch: branch ?? undefined, product: product ?? undefined });
+  } catch (error) {
+    return fail(error);
+  }
+}
@@ -0,0 +1,87 @@
+import { supabase } from '../utils/supabase';
+import { executeQuery, type RequestOptions } from '../utils/request';
+import type { Product } from '../types';
+import { fail, ok, type RepositoryResult } from './errors';
+
+const PRODUCT_SELECT = `
+  id,
+  category_id,
+  name,
+  description,
+  required_points,
+  active,
+  creation_date,
+  image_urls,
+  category:category_id(id, name),
+  stock:stock(
+    id,
+    branch_id,
+    quantity,
+    branch:branch(id, name)
+  )
+` as const;
+
+/** A catalog product along with the organization it belongs to. */
+export type OrganizationProduct = Product & { organization_id: string };
+
+type ProductRow = Omit<Product, 'category' | 'stock'> & {
+  category: Product['category'] | null;
+  stock: (Omit<NonNullable<Product['stock']>[number], 'branch'> & {
+    branch: NonNullable<Product['stock']>[number]['branch'] | null;
+  })[];
+};
+
+function toProduct<R extends ProductRow>({ category, stock, ...product }: R) {
+  return {
+    ...product,
+    category: category ?? undefined,
+    stock: stock.map(({ branch, ...item }) => ({ ...item, branch: branch ?? undefined })),
+  };
+}
+
+export async function listActiveProducts(
+  organizationId: string,
+  options: RequestOptions = {}
+): Promise<RepositoryResult<Product[]>> {
+  try {
+    const data = await executeQuery(
+      (signal) => supabase
+        .from('product')
+        .select(PRODUCT_SELECT)
+        .eq('organization_id', organizationId)
+        .eq('active', true)
+        .order('required_points', { ascending: true })
+        .abortSignal(signal),
+      { idempotent: true, ...options }
+    );
+
+    return ok(data.map(toProduct));
+  } catch (error) {
+    return fail(error);
+  }
+}
+
+/** Active products of several organizations in one request, e.g. every membership. */
+export async function listActiveProductsForOrganizations(
+  organizationIds: string[],
+  options: RequestOptions = {}
+): Promise<RepositoryResult<OrganizationProduct[]>> {
+  if (organizationIds.length === 0) return ok([]);
+
+  try {
+    const data = await executeQuery(
+      (signal) => supabase
+        .from('product')
+        .select(`organization_id, ${PRODUCT_SELECT}`)
+        .in('organization_id', organizationIds)
+        .eq('active', true)
+        .order('required_points', { ascending: true })
+        .abortSignal(signal),
+      { idempotent: true, ...options }
+    );
+
+    return ok(data.map(toProduct));
+  } catch (error) {
+    return fail(error);
+  }
+}
@@ -0,0 +1,80 @@
+import { supabase } from '../utils/supabase';
+import { executeQuery, type RequestOptions } from '../utils/request';
+import type { ReceiptClaim } from '../types';
+import type { TablesInsert } from '../types/database';
+import { fail, ok, type RepositoryResult } from './errors';
+import { ORGANIZATION_COLUMNS } from './organizations';
+
+export async function listReceiptClaims(
+  beneficiaryId: string,
+  options: RequestOptions = {}
+): Promise<RepositoryResult<ReceiptClaim[]>> {
+  try {
+    const data = await executeQuery(
+      (signal) => supabase
+        .from('receipt_claim')
+        .select(`*, organization:organization_id(${ORGANIZATION_COLUMNS})`)
+        .eq('beneficiary_id', beneficiaryId)
+        .order('created_at', { ascending: false })
+        .abortSignal(signal),
+      { idempotent: true, ...options }
+    );
+
+    return ok(data.map(({ organization, ...claim }) => ({
+      ...claim,
+      organization: organization ?? undefined,
+    })));
+  } catch (error) {
+    return fail(error);
+  }
+}
+
+export async function findReceiptClaimByInvoice(
+  invoice: {
+    issuerCuit: string;
+    invoiceType: number;
+    pointOfSale: number;
+    invoiceNumber: number;
+  },
+  options: RequestOptions = {}
+): Promise<RepositoryResult<{ id: string; beneficiary_id: string } | null>> {
+  try {
+    const data = await executeQuery(
+      (signal) => supabase
+        .from('receipt_claim')
+        .select('id, beneficiary_id')
+        .eq('issuer_cuit', invoice.issuerCuit)
+        .eq('invoice_type', invoice.invoiceType)
+        .eq('point_of_sale', invoice.pointOfSale)
+        .eq('invoice_number', invoice.invoiceNumber)
+        .abortSignal(signal)
+        .maybeSingle(),
+      { idempotent: true, ...options }
+    );
+
+    return ok(data);
+  } catch (error) {
+    return fail(error);
+  }
+}
+
+export async function createReceiptClaim(
+  claim: TablesInsert<'receipt_claim'>,
+  options: RequestOptions = {}
+): Promise<RepositoryResult<ReceiptClaim>> {
+  try {
+    const data = await executeQuery(
+      (signal) => supabase
+        .from('receipt_claim')
+        .insert(claim)
+        .select()
+        .abortSignal(signal)
+        .single(),
+      options
+    );
+
+    return ok(data);
+  } catch (error) {
+    return fail(error);
+  }
+}
@@ -0,0 +1,255 @@
+import { supabase } from '../utils/supabase';
+import { executeQuery, executeRequest, type RequestOptions } from '../utils/request';
+import type { Redemption, RedemptionStatusEvent, RedemptionVoucher } from '../types';
+import { fail, ok, type RepositoryResult } from './errors';
+
+export const REDEMPTION_PAGE_SIZE = 20;
+
+// `!inner` turns the product embed into a join, so filtering on the
+// product's organization drops rows server-side instead of returning nulls.
+const REDEMPTION_SELECT = `
+  id,
+  beneficiary_id,
+  product_id,
+  points_used,
+  quantity,
+  redemption_date,
+  status,
+  redeemed_by,
+  expires_at,
+  product:product_id!inner(
+    id,
+    category_id,
+    name,
+    description,
+    required_points,
+    organization_id,
+    image_urls,
+    category:category_id(id, name)
+  )
+` as const;
+
+const VOUCHER_SELECT = `
+  id,
+  product_id,
+  branch_id,
+  points_used,
+  status,
+  voucher_code,
+  expires_at,
+  redemption_date,
+  completed_at,
+  redeemed_by,
+  product:product_id(id, name, image_urls),
+  branch:branch_id(id, name),
+  events:redemption_status_history(status, changed_at, note)
+` as const;
+
+/**
+ * Position after the last row of a page. Dates can repeat (bulk imports
+ * share a timestamp), so the id breaks ties and no row is skipped or shown
+ * twice between pages.
+ */
+export type RedemptionCursor = {
+  redemptionDate: string;
+  id: string;
+};
+
+export type RedemptionPage = {
+  items: Redemption[];
+  nextCursor: RedemptionCursor | null;
+};
+
+export async function listRedemptions(
+  beneficiaryId: string,
+  organizationId: string,
+  { cursor = null, limit = REDEMPTION_PAGE_SIZE, ...options }: RequestOptions & {
+    cursor?: RedemptionCursor | null;
+    limit?: number;
+  } = {}
+): Promise<RepositoryResult<RedemptionPage>> {
+  try {
+    const data = await executeQuery(
+      (signal) => {
+        let query = supabase
+          .from('redemption')
+          .select(REDEMPTION_SELECT)
+          .eq('beneficiary_id', beneficiaryId)
+          .eq('product.organization_id', organizationId);
+
+        if (cursor) {
+          query = query.or(
+            `redemption_date.lt."${cursor.redemptionDate}",` +
+            `and(redemption_date.eq."${cursor.redemptionDate}",id.lt."${cursor.id}")`
+          );
+        }
+
+        // One extra row tells us whether another page exists.
+        return query
+          .order('redemption_date', { ascending: false })
+          .order('id', { ascending: false })
+          .limit(limit + 1)
+          .abortSignal(signal);
+      },
+      { idempotent: true, ...options }
+    );
+
+    const rows = data.slice(0, limit);
+    const last = rows[rows.length - 1];
+
+    return ok({
+      items: rows.map((r) => ({
+        id: r.id,
+        beneficiary_id: r.beneficiary_id,
+        product_id: r.product_id,
+        organization_id: organizationId,
+        points_redeemed: r.points_used,
+        status: r.status,
+        redeemed_by: r.redeemed_by,
+        redeemed_at: r.redemption_date,
+        expires_at: r.expires_at,
+        product: {
+          id: r.product.id,
+          category_id: r.product.category_id,
+          name: r.product.name,
+          description: r.product.description,
+          required_points: r.product.required_points,
+          active: true,
+          creation_date: '',
+          image_urls: r.product.image_urls,
+          category: r.product.category ?? undefined,
+        },
+      })),
+      nextCursor: data.length > limit && last
+        ? { redemptionDate: last.redemption_date, id: last.id }
+        : null,
+    });
+  } catch (error) {
+    return fail(error);
+  }
+}
+
+export async function countRedemptions(
+  beneficiaryId: string,
+  organizationId: string,
+  options: RequestOptions = {}
+): Promise<RepositoryResult<number>> {
+  try {
+    const count = await executeRequest(async (signal) => {
+      const { count, error } = await supabase
+        .from('redemption')
+        .select('id, product:product_id!inner(organization_id)', { count: 'exact', head: true })
+        .eq('beneficiary_id', beneficiaryId)
+        .eq('product.organization_id', organizationId)
+        .abortSignal(signal);
+
+      if (error) throw error;
+      return count ?? 0;
+    }, { idempotent: true, ...options });
+
+    return ok(count);
+  } catch (error) {
+    return fail(error);
+  }
+}
+
+type VoucherRow = {
+  id: string;
+  product_id: string | null;
+  branch_id: string | null;
+  points_used: number;
+  status: RedemptionVoucher['status'];
+  voucher_code: string | null;
+  expires_at: string | null;
+  redemption_date: string;
+  completed_at: string | null;
+  redeemed_by: string | null;
+  product?: RedemptionVoucher['product'] | null;
+  branch?: RedemptionVoucher['branch'] | null;
+  events?: RedemptionStatusEvent[] | null;
+};
+
+function toVoucher({ voucher_code, redemption_date, product, branch, events, ...row }: VoucherRow): RedemptionVoucher {
+  return {
+    ...row,
+    voucher_code: voucher_code ?? '',
+    requested_at: redemption_date,
+    product: product ?? undefined,
+    branch: branch ?? undefined,
+    events: events
+      ? [...events].sort((a, b) => new Date(a.changed_at).getTime() - new Date(b.changed_at).getTime())
+      : undefined,
+  };
+}
+
+/**
+ * Reserves one unit of `productId` at `branchId` and holds its points. The
+ * server checks balance and stock in the same transaction and returns the
+ * pending redemption with its one-time voucher code.
+ */
+export async function requestRedemption(
+  productId: string,
+  branchId: string,
+  options: RequestOptions = {}
+): Promise<RepositoryResult<RedemptionVoucher>> {
+  try {
+    // Not idempotent: a retried request could reserve twice.
+    const data = await executeQuery(
+      (signal) => supabase
+        .rpc('request_redemption', { p_product_id: productId, p_branch_id: branchId })
+        .abortSignal(signal)
+        .single(),
+      options
+    );
+
+    return ok(toVoucher(data));
+  } catch (error) {
+    return fail(error);
+  }
+}
+
+/**
+ * Cancels a pending redemption. The server releases the held points and
+ * restocks the branch in the same transaction; anything past pending is
+ * refused with `PC004`.
+ */
+export async function cancelRedemption(
+  redemptionId: string,
+  options: RequestOptions = {}
+): Promise<RepositoryResult<RedemptionVoucher>> {
+  try {
+    // Not retried: a repeat after a lost response would be refused as no longer pending.
+    const data = await executeQuery(
+      (signal) => supabase
+        .rpc('cancel_redemption', { p_redemption_id: redemptionId })
+        .abortSignal(signal)
+        .single(),
+      options
+    );
+
+    return ok(toVoucher(data));
+  } catch (error) {
+    return fail(error);
+  }
+}
+
+export async function getRedemptionVoucher(
+  redemptionId: string,
+  options: RequestOptions = {}
+): Promise<RepositoryResult<RedemptionVoucher | null>> {
+  try {
+    const data = await executeQuery(
+      (signal) => supabase
+        .from('redemption')
+        .select(VOUCHER_SELECT)
+        .eq('id', redemptionId)
+        .abortSignal(signal)
+        .maybeSingle(),
+      { idempotent: true, ...options }
+    );
+
+    return ok(data && toVoucher(data));
+  } catch (error) {
+    return fail(error);
+  }
+}
@@ -0,0 +1,107 @@
+import type { Session, User } from '@supabase/supabase-js';
+import { supabase } from '../utils/supabase';
+import { createStore } from '../utils/store';
+import { useStore } from '../hooks/useStore';
+import { getBeneficiaryByAuthUser } from '../repositories/beneficiaries';
+import { reportError, trackAction } from '../utils/errorReporting';
+
+export type AuthState = {
+  session: Session | null;
+  user: User | null;
+  /** True until the stored session and the profile behind it have been resolved. */
+  loading: boolean;
+  /** The device has no connectivity, as reported by expo-network. */
+  isOffline: boolean;
+  /**
+   * Online, but the profile could not be loaded (timeout, 5xx), so the
+   * offline card is shown while the load is retried.
+   */
+  serverUnavailable: boolean;
+};
+
+export const authStore = createStore<AuthState>({
+  session: null,
+  user: null,
+  loading: true,
+  isOffline: false,
+  serverUnavailable: false,
+});
+
+export function useAuthStore<T>(selector: (state: AuthState) => T) {
+  return useStore(authStore, selector);
+}
+
+export function setSession(session: Session | null) {
+  authStore.setState({ session, user: session?.user ?? null });
+}
+
+export async function signIn(email: string, password: string): Promise<{ error: Error | null }> {
+  trackAction('signIn');
+  try {
+    const { data, error } = await supabase.auth.signInWithPassword({
+      email,
+      password,
+    });
+
+    if (error) {
+      return { error };
+    }
+
+    if (data.user) {
+      // Verify this user is a beneficiary with final_user role
+      const { data: beneficiaryData, error: beneficiaryError } = await getBeneficiaryByAuthUser(data.user.id);
+
+      if (beneficiaryError || !beneficiaryData) {
+        await supabase.auth.signOut();
+        return { error: new Error('Esta cuenta no está registrada como usuario final. Por favor usa la app correcta.') };
+      }
+
+      if (beneficiaryData.roleName !== 'final_user') {
+        await supabase.auth.signOut();
+        return { error: new Error('Esta cuenta no tiene permisos de usuario final.') };
+      }
+    }
+
+    return { error: null };
+  } catch (error) {
+    reportError(error, 'authStore.signIn');
+    return { error: error as Error };
+  }
+}
+
+export async function signUp(
+  email: string,
+  password: string,
+  userData: { first_name: string; last_name: string; phone?: string; document_id?: string }
+): Promise<{ error: Error | null }> {
+  try {
+    // Create the auth user with metadata - the database trigger will create the beneficiary record
+    const { data: authData, error: authError } = await supabase.auth.signUp({
+      email,
+      password,
+      options: {
+        emailRedirectTo: 'https://puntos-club-admin.vercel.app/auth/email-confirmed',
+        data: {
+          first_name: userData.first_name,
+          last_name: userData.last_name,
+          phone: userData.phone || null,
+          document_id: userData.document_id || null,
+        },
+      },
+    });
+
+    if (authError) {
+      return { error: authError };
+    }
+
+    if (!authData.user) {
+      return { error: new Error('Error al crear la cuenta') };
+    }
+
+    // The beneficiary record is automatically created by the database trigger
+    return { error: null };
+  } catch (error) {
+    reportError(error, 'authStore.signUp');
+    return { error: error as Error };
+  }
+}
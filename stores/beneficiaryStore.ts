@@ -0,0 +1,79 @@
+import type { Beneficiary } from '../types';
+import { supabase } from '../utils/supabase';
+import { createStore } from '../utils/store';
+import { useStore } from '../hooks/useStore';
+import { getBeneficiaryByAuthUser } from '../repositories/beneficiaries';
+import { setupPushNotifications } from '../utils/pushNotifications';
+import { reportError } from '../utils/errorReporting';
+import { isNetworkError, loadOfflineCard, provisionOfflineCard } from '../utils/offlineCard';
+import { authStore } from './authStore';
+
+export type BeneficiaryState = {
+  beneficiary: Beneficiary | null;
+};
+
+export const beneficiaryStore = createStore<BeneficiaryState>({
+  beneficiary: null,
+});
+
+export function useBeneficiaryStore<T>(selector: (state: BeneficiaryState) => T) {
+  return useStore(beneficiaryStore, selector);
+}
+
+// When the server can't be reached, keep the user signed in with the last
+// known profile so the membership card can still be shown at the till.
+// Connectivity itself is tracked separately from the network listener.
+async function restoreOfflineBeneficiary(authUserId: string) {
+  const card = await loadOfflineCard();
+  if (card?.beneficiary.auth_user_id === authUserId) {
+    beneficiaryStore.setState({ beneficiary: card.beneficiary });
+    authStore.setState({ serverUnavailable: true });
+  } else {
+    beneficiaryStore.setState({ beneficiary: null });
+  }
+}
+
+export async function fetchBeneficiary(authUserId: string) {
+  try {
+    const { data, error } = await getBeneficiaryByAuthUser(authUserId, { timeoutMs: 8000 });
+
+    // Only a definite answer from the server signs the user out; an
+    // unreachable or failing backend falls back to the offline card.
+    if (error && error.kind !== 'auth' && error.kind !== 'client') {
+      reportError(error, 'beneficiaryStore.fetchBeneficiary', { level: 'warning' });
+      await restoreOfflineBeneficiary(authUserId);
+    } else if (error) {
+      reportError(error, 'beneficiaryStore.fetchBeneficiary');
+      await supabase.auth.signOut();
+      beneficiaryStore.setState({ beneficiary: null });
+    } else if (data) {
+      if (data.roleName !== 'final_user') {
+        await supabase.auth.signOut();
+        beneficiaryStore.setState({ beneficiary: null });
+      } else {
+        beneficiaryStore.setState({ beneficiary: data.beneficiary });
+        authStore.setState({ serverUnavailable: false });
+        setupPushNotifications().catch((error) => reportError(error, 'beneficiaryStore.setupPushNotifications'));
+        provisionOfflineCard(data.beneficiary).then(({ error }) => {
+          if (error) reportError(error, 'beneficiaryStore.provisionOfflineCard', { level: 'warning' });
+        });
+      }
+    }
+  } catch (error) {
+    reportError(error, 'beneficiaryStore.fetchBeneficiary');
+    if (isNetworkError(error)) {
+      await restoreOfflineBeneficiary(authUserId);
+    } else {
+      beneficiaryStore.setState({ beneficiary: null });
+    }
+  } finally {
+    authStore.setState({ loading: false });
+  }
+}
+
+export async function refreshBeneficiary() {
+  const userId = authStore.getState().user?.id;
+  if (userId) {
+    await fetchBeneficiary(userId);
+  }
+}
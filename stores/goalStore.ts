@@ -0,0 +1,110 @@
+import type { BeneficiaryOrganization, Product } from '../types';
+import { createStore } from '../utils/store';
+import { useStore } from '../hooks/useStore';
+import { reportError, trackAction } from '../utils/errorReporting';
+import {
+  loadSavingsGoals,
+  saveSavingsGoals,
+  type SavingsGoal,
+  type SavingsGoalsByMembership,
+} from '../utils/savingsGoals';
+
+export type GoalState = {
+  goals: SavingsGoalsByMembership;
+  loaded: boolean;
+  beneficiaryId: string | null;
+};
+
+export const goalStore = createStore<GoalState>({
+  goals: {},
+  loaded: false,
+  beneficiaryId: null,
+});
+
+// Changes wait for the stored goals, so a pin made while they load is
+// merged into them instead of overwriting them
+let pendingLoad: Promise<void> = Promise.resolve();
+
+export function useGoalStore<T>(selector: (state: GoalState) => T) {
+  return useStore(goalStore, selector);
+}
+
+export function loadGoals(beneficiaryId: string) {
+  if (goalStore.getState().beneficiaryId !== beneficiaryId) {
+    goalStore.setState({ goals: {}, loaded: false, beneficiaryId });
+  }
+  pendingLoad = loadSavingsGoals(beneficiaryId).then((goals) => {
+    // Signed out or switched account while reading
+    if (goalStore.getState().beneficiaryId !== beneficiaryId) return;
+    goalStore.setState({ goals, loaded: true });
+  });
+  return pendingLoad;
+}
+
+async function updateGoals(membershipId: string, update: (goals: SavingsGoal[]) => SavingsGoal[]) {
+  await pendingLoad;
+  const { goals, beneficiaryId } = goalStore.getState();
+  if (!beneficiaryId) return;
+
+  const next = update(goals[membershipId] ?? []);
+  const nextGoals = { ...goals, [membershipId]: next };
+  if (next.length === 0) delete nextGoals[membershipId];
+
+  goalStore.setState({ goals: nextGoals });
+  saveSavingsGoals(beneficiaryId, nextGoals)
+    .catch((error) => reportError(error, 'goalStore.saveSavingsGoals', { level: 'warning' }));
+}
+
+export function pinGoal(membership: BeneficiaryOrganization, product: Product) {
+  trackAction('pinSavingsGoal', { organization_id: membership.organization_id, product_id: product.id });
+  updateGoals(membership.id, (goals) =>
+    goals.some((goal) => goal.productId === product.id)
+      ? goals
+      : [
+        ...goals,
+        {
+          productId: product.id,
+          organizationId: membership.organization_id,
+          name: product.name,
+          requiredPoints: product.required_points,
+          imageUrl: product.image_urls?.[0] ?? null,
+          pinnedAt: new Date().toISOString(),
+        },
+      ]
+  );
+}
+
+export function unpinGoal(membershipId: string, productId: string) {
+  updateGoals(membershipId, (goals) => goals.filter((goal) => goal.productId !== productId));
+}
+
+/**
+ * Refreshes the goal snapshots from a freshly loaded catalog, so price
+ * changes show up on the home screen too. Goals whose product is missing
+ * from the catalog are kept; the product may only be paused.
+ */
+export function syncGoalProducts(membershipId: string, products: Product[]) {
+  const current = goalStore.getState().goals[membershipId];
+  if (!current) return;
+
+  const byId = new Map(products.map((product) => [product.id, product]));
+  const stale = current.some((goal) => {
+    const product = byId.get(goal.productId);
+    return !!product && (product.name !== goal.name || product.required_points !== goal.requiredPoints);
+  });
+  if (!stale) return;
+
+  updateGoals(membershipId, (goals) =>
+    goals.map((goal) => {
+      const product = byId.get(goal.productId);
+      return product
+        ? {
+          ...goal,
+          name: product.name,
+          requiredPoints: product.required_points,
+          imageUrl: product.image_urls?.[0] ?? goal.imageUrl,
+        }
+        : goal;
+    })
+  );
+}
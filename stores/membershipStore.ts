@@ -0,0 +1,157 @@
+import type { BeneficiaryOrganization, MembershipTier } from '../types';
+import { createStore } from '../utils/store';
+import { useStore } from '../hooks/useStore';
+import {
+  createMembership,
+  findMembership,
+  listActiveMemberships,
+  setMembershipActive,
+} from '../repositories/memberships';
+import { CACHE_POLICIES, staleWhileRevalidate } from '../utils/cache';
+import { subscribeToTable } from '../utils/realtime';
+import { reportError, trackAction } from '../utils/errorReporting';
+import { detectTierUpgrade } from '../utils/tiers';
+import { goalsReached, notifyGoalsReached } from '../utils/savingsGoals';
+import { beneficiaryStore } from './beneficiaryStore';
+import { goalStore } from './goalStore';
+
+export type MembershipState = {
+  memberships: BeneficiaryOrganization[];
+  loading: boolean;
+  /** `memberships` came from the cache or the server, not the empty initial state. */
+  loaded: boolean;
+  /** Last failure loading memberships, while nothing cached could be shown. */
+  error: Error | null;
+  /** A tier just reached through a live update, waiting to be celebrated. */
+  tierUpgrade: { organizationId: string; organizationName: string; tier: MembershipTier } | null;
+};
+
+export const membershipStore = createStore<MembershipState>({
+  memberships: [],
+  loading: false,
+  loaded: false,
+  error: null,
+  tierUpgrade: null,
+});
+
+export function useMembershipStore<T>(selector: (state: MembershipState) => T) {
+  return useStore(membershipStore, selector);
+}
+
+// Hydrates from the persistent cache first, so the home screen renders
+// instantly and only revalidates in the background.
+export async function fetchMemberships(beneficiaryId: string, force: boolean = false) {
+  membershipStore.setState({ loading: true });
+  const { hadCache, error } = await staleWhileRevalidate(
+    `memberships:${beneficiaryId}`,
+    CACHE_POLICIES.memberships,
+    () => listActiveMemberships(beneficiaryId),
+    (memberships) => membershipStore.setState({ memberships, loading: false, loaded: true }),
+    { force }
+  );
+  if (error) {
+    reportError(error, 'membershipStore.fetchMemberships', { level: hadCache ? 'warning' : 'error' });
+  }
+  membershipStore.setState({ error: error && !hadCache ? error : null, loading: false });
+}
+
+/**
+ * Keeps the memberships of `beneficiaryId` live. Point balance updates are
+ * merged in place; joins and leaves, and a reconnect after missed events,
+ * refetch the list. Returns the unsubscribe function.
+ */
+export function subscribeToMemberships(beneficiaryId: string) {
+  return subscribeToTable(
+    {
+      table: 'beneficiary_organization',
+      filter: `beneficiary_id=eq.${beneficiaryId}`,
+    },
+    {
+      onChange: (payload) => {
+        if (payload.eventType === 'UPDATE' && payload.new) {
+          // For updates, optimistically update the state
+          const row = payload.new;
+          const { memberships } = membershipStore.getState();
+          const previous = memberships.find((org) => org.id === row.id);
+          if (!previous) return;
+
+          const updated = {
+            ...previous,
+            available_points: row.available_points,
+            total_points_earned: row.total_points_earned,
+            total_points_redeemed: row.total_points_redeemed,
+            held_points: row.held_points,
+            points_earned_last_12_months: row.points_earned_last_12_months,
+            updated_at: row.updated_at,
+          };
+          const tier = detectTierUpgrade(previous, updated);
+          const reached = goalsReached(goalStore.getState().goals[updated.id] ?? [], previous, updated);
+          if (reached.length > 0) {
+            notifyGoalsReached(updated, reached)
+              .catch((error) => reportError(error, 'membershipStore.notifyGoalsReached', { level: 'warning' }));
+          }
+
+          membershipStore.setState({
+            memberships: memberships.map((org) => (org.id === row.id ? updated : org)),
+            ...(tier && {
+              tierUpgrade: {
+                organizationId: updated.organization_id,
+                organizationName: updated.organization?.name || 'tu organizacion',
+                tier,
+              },
+            }),
+          });
+        } else {
+          // For INSERT and DELETE, refetch all organizations
+          fetchMemberships(beneficiaryId, true);
+        }
+      },
+      onResync: () => fetchMemberships(beneficiaryId, true),
+    }
+  );
+}
+
+export function dismissTierUpgrade() {
+  membershipStore.setState({ tierUpgrade: null });
+}
+
+export async function joinOrganization(organizationId: string): Promise<{ error: Error | null }> {
+  trackAction('joinOrganization', { organization_id: organizationId });
+  const beneficiaryId = beneficiaryStore.getState().beneficiary?.id;
+  if (!beneficiaryId) {
+    return { error: new Error('No hay usuario autenticado') };
+  }
+
+  try {
+    // Check if already joined
+    const { data: existing } = await findMembership(beneficiaryId, organizationId);
+
+    if (existing) {
+      if (existing.is_active) {
+        return { error: new Error('Ya perteneces a esta organizacion') };
+      }
+      // Reactivate membership
+      const { error: updateError } = await setMembershipActive(existing.id, true);
+
+      if (updateError) {
+        reportError(updateError, 'membershipStore.joinOrganization', { context: { organization_id: organizationId } });
+        return { error: new Error('Error al reactivar membresia: ' + updateError.message) };
+      }
+    } else {
+      // Create new membership
+      const { error: insertError } = await createMembership(beneficiaryId, organizationId);
+
+      if (insertError) {
+        reportError(insertError, 'membershipStore.joinOrganization', { context: { organization_id: organizationId } });
+        return { error: new Error('Error al unirse a la organizacion: ' + insertError.message) };
+      }
+    }
+
+    // Refresh organizations list
+    await fetchMemberships(beneficiaryId, true);
+    return { error: null };
+  } catch (error) {
+    reportError(error, 'membershipStore.joinOrganization', { context: { organization_id: organizationId } });
+    return { error: error as Error };
+  }
+}
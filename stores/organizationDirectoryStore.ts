@@ -0,0 +1,36 @@
+import type { Organization } from '../types';
+import { createStore } from '../utils/store';
+import { useStore } from '../hooks/useStore';
+import { listOrganizations } from '../repositories/organizations';
+import { CACHE_POLICIES, staleWhileRevalidate } from '../utils/cache';
+import { reportError } from '../utils/errorReporting';
+
+export type OrganizationDirectoryState = {
+  organizations: Organization[];
+  /** Last failure loading the directory, while nothing cached could be shown. */
+  error: Error | null;
+};
+
+export const organizationDirectoryStore = createStore<OrganizationDirectoryState>({
+  organizations: [],
+  error: null,
+});
+
+export function useOrganizationDirectoryStore<T>(selector: (state: OrganizationDirectoryState) => T) {
+  return useStore(organizationDirectoryStore, selector);
+}
+
+// Hydrates from the persistent cache first and revalidates in the background.
+export async function fetchAllOrganizations(force: boolean = false) {
+  const { hadCache, error } = await staleWhileRevalidate(
+    'organizations',
+    CACHE_POLICIES.organizations,
+    listOrganizations,
+    (organizations) => organizationDirectoryStore.setState({ organizations }),
+    { force }
+  );
+  if (error) {
+    reportError(error, 'organizationDirectoryStore.fetchAllOrganizations', { level: hadCache ? 'warning' : 'error' });
+  }
+  organizationDirectoryStore.setState({ error: error && !hadCache ? error : null });
+}
@@ -0,0 +1,721 @@
+// Supabase schema types, kept by hand in the shape `npm run gen:types`
+// produces. They describe what the app expects, including tables and RPCs
+// whose migrations live with the backend; replace this file with the
+// generated output once those are applied so drift shows up as type errors.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      address: {
+        Row: {
+          city: string
+          country: string | null
+          id: string
+          latitude: number | null
+          longitude: number | null
+          number: string
+          place_id: string | null
+          state: string
+          street: string
+          zip_code: string
+        }
+        Insert: {
+          city: string
+          country?: string | null
+          id?: string
+          latitude?: number | null
+          longitude?: number | null
+          number: string
+          place_id?: string | null
+          state: string
+          street: string
+          zip_code: string
+        }
+        Update: {
+          city?: string
+          country?: string | null
+          id?: string
+          latitude?: number | null
+          longitude?: number | null
+          number?: string
+          place_id?: string | null
+          state?: string
+          street?: string
+          zip_code?: string
+        }
+        Relationships: []
+      }
+      beneficiary: {
+        Row: {
+          address_id: string | null
+          auth_user_id: string | null
+          available_points: number
+          document_id: string | null
+          email: string | null
+          first_name: string | null
+          id: string
+          last_name: string | null
+          phone: string | null
+          role_id: string | null
+        }
+        Insert: {
+          address_id?: string | null
+          auth_user_id?: string | null
+          available_points?: number
+          document_id?: string | null
+          email?: string | null
+          first_name?: string | null
+          id?: string
+          last_name?: string | null
+          phone?: string | null
+          role_id?: string | null
+        }
+        Update: {
+          address_id?: string | null
+          auth_user_id?: string | null
+          available_points?: number
+          document_id?: string | null
+          email?: string | null
+          first_name?: string | null
+          id?: string
+          last_name?: string | null
+          phone?: string | null
+          role_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "beneficiary_address_id_fkey"
+            columns: ["address_id"]
+            isOneToOne: false
+            referencedRelation: "address"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "beneficiary_role_id_fkey"
+            columns: ["role_id"]
+            isOneToOne: false
+            referencedRelation: "user_role"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      beneficiary_organization: {
+        Row: {
+          available_points: number
+          beneficiary_id: string
+          held_points: number
+          id: string
+          is_active: boolean
+          joined_date: string
+          membership_number: string | null
+          organization_id: string
+          points_earned_last_12_months: number
+          total_points_earned: number
+          total_points_redeemed: number
+          updated_at: string | null
+        }
+        Insert: {
+          available_points?: number
+          beneficiary_id: string
+          held_points?: number
+          id?: string
+          is_active?: boolean
+          joined_date?: string
+          membership_number?: string | null
+          organization_id: string
+          points_earned_last_12_months?: number
+          total_points_earned?: number
+          total_points_redeemed?: number
+          updated_at?: string | null
+        }
+        Update: {
+          available_points?: number
+          beneficiary_id?: string
+          held_points?: number
+          id?: string
+          is_active?: boolean
+          joined_date?: string
+          membership_number?: string | null
+          organization_id?: string
+          points_earned_last_12_months?: number
+          total_points_earned?: number
+          total_points_redeemed?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "beneficiary_organization_beneficiary_id_fkey"
+            columns: ["beneficiary_id"]
+            isOneToOne: false
+            referencedRelation: "beneficiary"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "beneficiary_organization_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organization"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      branch: {
+        Row: {
+          id: string
+          name: string
+          organization_id: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          organization_id: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "branch_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organization"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      category: {
+        Row: {
+          id: string
+          name: string
+        }
+        Insert: {
+          id?: string
+          name: string
+        }
+        Update: {
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      membership_tier: {
+        Row: {
+          benefits: string[] | null
+          color: string | null
+          id: string
+          min_points: number
+          name: string
+          organization_id: string
+        }
+        Insert: {
+          benefits?: string[] | null
+          color?: string | null
+          id?: string
+          min_points: number
+          name: string
+          organization_id: string
+        }
+        Update: {
+          benefits?: string[] | null
+          color?: string | null
+          id?: string
+          min_points?: number
+          name?: string
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "membership_tier_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organization"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization: {
+        Row: {
+          brand_color: string | null
+          business_name: string | null
+          card_barcode_format: Database["public"]["Enums"]["card_barcode_format"] | null
+          creation_date: string
+          id: string
+          logo_url: string | null
+          name: string
+          tax_id: string | null
+          tier_basis: Database["public"]["Enums"]["tier_basis"]
+        }
+        Insert: {
+          brand_color?: string | null
+          business_name?: string | null
+          card_barcode_format?: Database["public"]["Enums"]["card_barcode_format"] | null
+          creation_date?: string
+          id?: string
+          logo_url?: string | null
+          name: string
+          tax_id?: string | null
+          tier_basis?: Database["public"]["Enums"]["tier_basis"]
+        }
+        Update: {
+          brand_color?: string | null
+          business_name?: string | null
+          card_barcode_format?: Database["public"]["Enums"]["card_barcode_format"] | null
+          creation_date?: string
+          id?: string
+          logo_url?: string | null
+          name?: string
+          tax_id?: string | null
+          tier_basis?: Database["public"]["Enums"]["tier_basis"]
+        }
+        Relationships: []
+      }
+      product: {
+        Row: {
+          active: boolean
+          category_id: string
+          creation_date: string
+          description: string | null
+          id: string
+          image_urls: string[] | null
+          name: string
+          organization_id: string
+          required_points: number
+        }
+        Insert: {
+          active?: boolean
+          category_id: string
+          creation_date?: string
+          description?: string | null
+          id?: string
+          image_urls?: string[] | null
+          name: string
+          organization_id: string
+          required_points: number
+        }
+        Update: {
+          active?: boolean
+          category_id?: string
+          creation_date?: string
+          description?: string | null
+          id?: string
+          image_urls?: string[] | null
+          name?: string
+          organization_id?: string
+          required_points?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "category"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organization"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      receipt_claim: {
+        Row: {
+          amount: number
+          authorization_code: string
+          beneficiary_id: string
+          created_at: string
+          currency: string
+          id: string
+          invoice_number: number
+          invoice_type: number
+          issuer_cuit: string
+          organization_id: string
+          point_of_sale: number
+          points_awarded: number | null
+          receipt_date: string
+          rejection_reason: string | null
+          status: Database["public"]["Enums"]["receipt_claim_status"]
+        }
+        Insert: {
+          amount: number
+          authorization_code: string
+          beneficiary_id: string
+          created_at?: string
+          currency?: string
+          id?: string
+          invoice_number: number
+          invoice_type: number
+          issuer_cuit: string
+          organization_id: string
+          point_of_sale: number
+          points_awarded?: number | null
+          receipt_date: string
+          rejection_reason?: string | null
+          status?: Database["public"]["Enums"]["receipt_claim_status"]
+        }
+        Update: {
+          amount?: number
+          authorization_code?: string
+          beneficiary_id?: string
+          created_at?: string
+          currency?: string
+          id?: string
+          invoice_number?: number
+          invoice_type?: number
+          issuer_cuit?: string
+          organization_id?: string
+          point_of_sale?: number
+          points_awarded?: number | null
+          receipt_date?: string
+          rejection_reason?: string | null
+          status?: Database["public"]["Enums"]["receipt_claim_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "receipt_claim_beneficiary_id_fkey"
+            columns: ["beneficiary_id"]
+            isOneToOne: false
+            referencedRelation: "beneficiary"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "receipt_claim_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organization"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      redemption: {
+        Row: {
+          beneficiary_id: string
+          branch_id: string | null
+          completed_at: string | null
+          expires_at: string | null
+          id: string
+          points_used: number
+          product_id: string | null
+          quantity: number
+          redeemed_by: string | null
+          redemption_date: string
+          status: Database["public"]["Enums"]["redemption_status"]
+          voucher_code: string | null
+        }
+        Insert: {
+          beneficiary_id: string
+          branch_id?: string | null
+          completed_at?: string | null
+          expires_at?: string | null
+          id?: string
+          points_used: number
+          product_id?: string | null
+          quantity?: number
+          redeemed_by?: string | null
+          redemption_date?: string
+          status?: Database["public"]["Enums"]["redemption_status"]
+          voucher_code?: string | null
+        }
+        Update: {
+          beneficiary_id?: string
+          branch_id?: string | null
+          completed_at?: string | null
+          expires_at?: string | null
+          id?: string
+          points_used?: number
+          product_id?: string | null
+          quantity?: number
+          redeemed_by?: string | null
+          redemption_date?: string
+          status?: Database["public"]["Enums"]["redemption_status"]
+          voucher_code?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "redemption_beneficiary_id_fkey"
+            columns: ["beneficiary_id"]
+            isOneToOne: false
+            referencedRelation: "beneficiary"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "redemption_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branch"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "redemption_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "product"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      redemption_status_history: {
+        Row: {
+          changed_at: string
+          id: string
+          note: string | null
+          redemption_id: string
+          status: Database["public"]["Enums"]["redemption_status"]
+        }
+        Insert: {
+          changed_at?: string
+          id?: string
+          note?: string | null
+          redemption_id: string
+          status: Database["public"]["Enums"]["redemption_status"]
+        }
+        Update: {
+          changed_at?: string
+          id?: string
+          note?: string | null
+          redemption_id?: string
+          status?: Database["public"]["Enums"]["redemption_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "redemption_status_history_redemption_id_fkey"
+            columns: ["redemption_id"]
+            isOneToOne: false
+            referencedRelation: "redemption"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock: {
+        Row: {
+          branch_id: string
+          id: string
+          product_id: string
+          quantity: number
+        }
+        Insert: {
+          branch_id: string
+          id?: string
+          product_id: string
+          quantity?: number
+        }
+        Update: {
+          branch_id?: string
+          id?: string
+          product_id?: string
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branch"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "product"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_role: {
+        Row: {
+          id: string
+          name: string
+        }
+        Insert: {
+          id?: string
+          name: string
+        }
+        Update: {
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      points_expiration: {
+        Row: {
+          beneficiary_id: string
+          expires_at: string
+          organization_id: string
+          points: number
+        }
+        Relationships: []
+      }
+      points_ledger: {
+        Row: {
+          beneficiary_id: string
+          branch_id: string | null
+          currency: string | null
+          description: string | null
+          entry_type: Database["public"]["Enums"]["points_entry_type"]
+          id: string
+          occurred_at: string
+          offer_id: number | null
+          offer_name: string | null
+          organization_id: string
+          points: number
+          product_id: string | null
+          purchase_amount: number | null
+          redemption_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "points_ledger_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branch"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "points_ledger_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "product"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Functions: {
+      cancel_redemption: {
+        Args: {
+          p_redemption_id: string
+        }
+        Returns: {
+          beneficiary_id: string
+          branch_id: string | null
+          completed_at: string | null
+          expires_at: string | null
+          id: string
+          points_used: number
+          product_id: string | null
+          quantity: number
+          redeemed_by: string | null
+          redemption_date: string
+          status: Database["public"]["Enums"]["redemption_status"]
+          voucher_code: string | null
+        }
+      }
+      get_active_offers: {
+        Args: {
+          p_branch_id: string | null
+          p_check_time: string
+          p_organization_id: string
+        }
+        Returns: {
+          config: Json
+          days_of_week: number[] | null
+          description: string
+          display_color: string
+          display_icon: string
+          display_name: string
+          id: number
+          rule_type: string
+          time_end: string | null
+          time_start: string | null
+          valid_until: string | null
+        }[]
+      }
+      get_beneficiary_qr_secret: {
+        Args: never
+        Returns: string
+      }
+      issue_offline_qr_tokens: {
+        Args: {
+          p_count: number
+        }
+        Returns: {
+          id: string
+          signature: string
+          valid_from: string
+          valid_until: string
+        }[]
+      }
+      request_redemption: {
+        Args: {
+          p_branch_id: string
+          p_product_id: string
+        }
+        Returns: {
+          beneficiary_id: string
+          branch_id: string | null
+          completed_at: string | null
+          expires_at: string | null
+          id: string
+          points_used: number
+          product_id: string | null
+          quantity: number
+          redeemed_by: string | null
+          redemption_date: string
+          status: Database["public"]["Enums"]["redemption_status"]
+          voucher_code: string | null
+        }
+      }
+      resolve_organization_join_code: {
+        Args: {
+          p_code: string
+        }
+        Returns: {
+          brand_color: string | null
+          business_name: string | null
+          card_barcode_format: Database["public"]["Enums"]["card_barcode_format"] | null
+          creation_date: string
+          id: string
+          logo_url: string | null
+          name: string
+          tax_id: string | null
+        }[]
+      }
+    }
+    Enums: {
+      card_barcode_format: "qr" | "code128" | "ean13"
+      points_entry_type: "accrual" | "redemption" | "adjustment" | "expiration"
+      receipt_claim_status: "pending" | "approved" | "rejected"
+      redemption_status:
+        | "pending"
+        | "approved"
+        | "ready_for_pickup"
+        | "delivered"
+        | "completed"
+        | "cancelled"
+        | "expired"
+      tier_basis: "lifetime" | "rolling_12_months"
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database["public"]
+
+export type Tables<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Row"]
+
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Insert"]
+
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Update"]
+
+export type Enums<T extends keyof PublicSchema["Enums"]> =
+  PublicSchema["Enums"][T]
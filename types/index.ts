@@ -4,19 +4,50 @@ export type Organization = {
   business_name?: string | null;
   tax_id?: string | null;
   logo_url?: string | null;
+  brand_color?: string | null;
+  card_barcode_format?: CardBarcodeFormat | null;
+  tier_basis?: TierBasis;
   creation_date: string;
 };
 
+// Some merchants' POS scanners only read 1D barcodes
+export type CardBarcodeFormat = 'qr' | 'code128' | 'ean13';
+
+// Tiers are earned on lifetime points or on points earned in the last 12 months
+export type TierBasis = 'lifetime' | 'rolling_12_months';
+
+export type MembershipTier = {
+  id: string;
+  name: string;
+  min_points: number;
+  color?: string | null;
+  benefits?: string[] | null;
+};
+
 export type BeneficiaryOrganization = {
   id: string;
   beneficiary_id: string;
   organization_id: string;
+  membership_number?: string | null;
   available_points: number;
   total_points_earned: number;
   total_points_redeemed: number;
+  /** Reserved by pending redemptions; already excluded from `available_points`. */
+  held_points?: number;
+  points_earned_last_12_months?: number;
   joined_date: string;
   is_active: boolean;
   organization?: Organization;
+  /** The organization's tiers, lowest threshold first. Empty when it has none. */
+  tiers?: MembershipTier[];
+  /** Upcoming expirations, soonest first. Only points not yet expired. */
+  expiring_points?: PointsExpirationBucket[];
+};
+
+// Points earned on the same day expire together
+export type PointsExpirationBucket = {
+  points: number;
+  expires_at: string;
 };
 
 export type Beneficiary = {
@@ -73,14 +104,118 @@ export type Product = {
   stock?: Stock[];
 };
 
+export type ActiveOffer = {
+  id: number;
+  display_name: string;
+  description: string;
+  display_icon: string;
+  display_color: string;
+  rule_type: string;
+  config: { points_per_dollar?: number; percentage?: number };
+  time_start: string | null;
+  time_end: string | null;
+  days_of_week: number[] | null;
+  valid_until: string | null;
+};
+
+// A request starts pending with its points held. The store approves it,
+// prepares it (ready for pickup) and hands it over (delivered), which spends
+// the points. Cancelling or letting the voucher expire releases them.
+// Redemptions handed over before these statuses existed still say completed.
+export type RedemptionStatus =
+  | 'pending'
+  | 'approved'
+  | 'ready_for_pickup'
+  | 'delivered'
+  | 'completed'
+  | 'cancelled'
+  | 'expired';
+
+export type RedemptionStatusEvent = {
+  status: RedemptionStatus;
+  changed_at: string;
+  note?: string | null;
+};
+
 export type Redemption = {
   id: string;
   beneficiary_id: string;
   product_id: string | null;
   organization_id: string;
   points_redeemed: number;
-  status: string;
+  status: RedemptionStatus;
   redeemed_by: string | null;
   redeemed_at: string;
+  expires_at: string | null;
   product?: Product;
 };
+
+// What the member shows at the till to collect a reserved product
+export type RedemptionVoucher = {
+  id: string;
+  product_id: string | null;
+  branch_id: string | null;
+  points_used: number;
+  status: RedemptionStatus;
+  voucher_code: string;
+  /** Null for redemptions from before vouchers expired: they never do. */
+  expires_at: string | null;
+  requested_at: string;
+  /** When it was delivered. */
+  completed_at: string | null;
+  redeemed_by: string | null;
+  product?: { id: string; name: string; image_urls?: string[] | null };
+  branch?: { id: string; name: string };
+  /** Status changes, oldest first. */
+  events?: RedemptionStatusEvent[];
+};
+
+export type PointsEntryType = 'accrual' | 'redemption' | 'adjustment' | 'expiration';
+
+// One row per balance change. `points` is signed: accruals are positive,
+// redemptions and expirations negative, adjustments either way.
+export type PointsLedgerEntry = {
+  id: string;
+  beneficiary_id: string;
+  organization_id: string;
+  entry_type: PointsEntryType;
+  points: number;
+  occurred_at: string;
+  description?: string | null;
+  purchase_amount?: number | null;
+  currency?: string | null;
+  branch_id?: string | null;
+  offer_id?: number | null;
+  offer_name?: string | null;
+  redemption_id?: string | null;
+  product_id?: string | null;
+  branch?: {
+    id: string;
+    name: string;
+  };
+  product?: {
+    id: string;
+    name: string;
+  };
+};
+
+export type ReceiptClaimStatus = 'pending' | 'approved' | 'rejected';
+
+export type ReceiptClaim = {
+  id: string;
+  beneficiary_id: string;
+  organization_id: string;
+  issuer_cuit: string;
+  invoice_type: number;
+  point_of_sale: number;
+  invoice_number: number;
+  amount: number;
+  currency: string;
+  receipt_date: string;
+  authorization_code: string;
+  status: ReceiptClaimStatus;
+  points_awarded?: number | null;
+  rejection_reason?: string | null;
+  created_at: string;
+  organization?: Organization;
+};
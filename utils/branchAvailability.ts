@@ -0,0 +1,70 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { Product } from '../types';
+
+const PREFERRED_BRANCH_KEY_PREFIX = 'puntosclub:preferred-branch:';
+
+export type BranchOption = {
+  id: string;
+  name: string;
+};
+
+/** Branch the member last picked on this membership, or null for "Todas". */
+export async function getPreferredBranch(membershipId: string): Promise<string | null> {
+  try {
+    return await AsyncStorage.getItem(`${PREFERRED_BRANCH_KEY_PREFIX}${membershipId}`);
+  } catch {
+    return null;
+  }
+}
+
+export async function setPreferredBranch(membershipId: string, branchId: string | null) {
+  const key = `${PREFERRED_BRANCH_KEY_PREFIX}${membershipId}`;
+  if (branchId === null) {
+    await AsyncStorage.removeItem(key);
+  } else {
+    await AsyncStorage.setItem(key, branchId);
+  }
+}
+
+/**
+ * Every branch that carries any of the products, by name. Branches come from
+ * the stock rows, so one with no stock rows at all is not offered.
+ */
+export function listStockBranches(products: Product[]): BranchOption[] {
+  const branches = new Map<string, BranchOption>();
+  for (const product of products) {
+    for (const stock of product.stock ?? []) {
+      if (stock.branch && !branches.has(stock.branch_id)) {
+        branches.set(stock.branch_id, { id: stock.branch_id, name: stock.branch.name });
+      }
+    }
+  }
+  return [...branches.values()].sort((a, b) => a.name.localeCompare(b.name, 'es'));
+}
+
+export function totalStock(product: Product) {
+  return product.stock?.reduce((sum, s) => sum + (s.quantity || 0), 0) ?? 0;
+}
+
+export function stockAtBranch(product: Product, branchId: string) {
+  return product.stock?.find((s) => s.branch_id === branchId)?.quantity ?? 0;
+}
+
+/** Names of the branches that currently have the product, optionally leaving one out. */
+export function branchesWithStock(product: Product, excludeBranchId?: string | null) {
+  return (product.stock ?? [])
+    .flatMap((s) => (s.quantity > 0 && s.branch && s.branch_id !== excludeBranchId ? [s.branch.name] : []))
+    .sort((a, b) => a.localeCompare(b, 'es'));
+}
+
+/**
+ * Products in stock at `branchId` first, then those only available
+ * elsewhere, then those with no stock. Keeps the incoming order within each
+ * group, so the catalog's own ordering still applies.
+ */
+export function sortByBranchStock(products: Product[], branchId: string) {
+  const rank = (product: Product) =>
+    stockAtBranch(product, branchId) > 0 ? 0 : totalStock(product) > 0 ? 1 : 2;
+  return [...products].sort((a, b) => rank(a) - rank(b));
+}
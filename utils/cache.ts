@@ -0,0 +1,112 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { RepositoryResult } from '../repositories/errors';
+
+const CACHE_KEY_PREFIX = 'puntosclub:cache:';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * `staleAfter`: cached data is still shown, but refetched in the background.
+ * `expireAfter`: cached data is too old to show and is dropped.
+ */
+export type CachePolicy = {
+  staleAfter: number;
+  expireAfter: number;
+};
+
+// Points move with every purchase, so memberships go stale fast but are kept
+// for a long time: showing last week's balance beats a spinner at the till.
+// Offers depend on the time of day, so they expire the same day.
+export const CACHE_POLICIES = {
+  memberships: { staleAfter: MINUTE, expireAfter: 30 * DAY },
+  organizations: { staleAfter: HOUR, expireAfter: 30 * DAY },
+  products: { staleAfter: 15 * MINUTE, expireAfter: 7 * DAY },
+  offers: { staleAfter: 5 * MINUTE, expireAfter: 6 * HOUR },
+} satisfies Record<string, CachePolicy>;
+
+type CacheEntry<T> = {
+  data: T;
+  storedAt: number;
+};
+
+export type CachedValue<T> = {
+  data: T;
+  storedAt: number;
+  isStale: boolean;
+};
+
+export async function readCache<T>(
+  key: string,
+  policy: CachePolicy,
+  now: number = Date.now()
+): Promise<CachedValue<T> | null> {
+  try {
+    const raw = await AsyncStorage.getItem(CACHE_KEY_PREFIX + key);
+    if (!raw) return null;
+
+    const entry = JSON.parse(raw) as CacheEntry<T>;
+    const age = now - entry.storedAt;
+
+    if (age > policy.expireAfter) {
+      await AsyncStorage.removeItem(CACHE_KEY_PREFIX + key);
+      return null;
+    }
+
+    return { data: entry.data, storedAt: entry.storedAt, isStale: age > policy.staleAfter };
+  } catch {
+    return null;
+  }
+}
+
+export async function writeCache<T>(key: string, data: T) {
+  try {
+    const entry: CacheEntry<T> = { data, storedAt: Date.now() };
+    await AsyncStorage.setItem(CACHE_KEY_PREFIX + key, JSON.stringify(entry));
+  } catch {
+    // A full or unavailable store only costs us the next cold start.
+  }
+}
+
+/** Drops every cached entity. Called on sign out so no data leaks across accounts. */
+export async function clearCache() {
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(keys.filter((key) => key.startsWith(CACHE_KEY_PREFIX)));
+  } catch {
+  }
+}
+
+/**
+ * Stale-while-revalidate: hands cached data to `onData` straight away, then
+ * refetches when the entry is stale, missing, or `force` is set. Fresh
+ * results are written back and handed to `onData` again. Resolves with the
+ * fetch error, if any, so callers can tell a failed revalidation apart from
+ * an empty result.
+ */
+export async function staleWhileRevalidate<T>(
+  key: string,
+  policy: CachePolicy,
+  fetcher: () => Promise<RepositoryResult<T>>,
+  onData: (data: T, fromCache: boolean) => void,
+  options: { force?: boolean } = {}
+): Promise<{ hadCache: boolean; error: Error | null }> {
+  const cached = await readCache<T>(key, policy);
+  if (cached) {
+    onData(cached.data, true);
+    if (!cached.isStale && !options.force) {
+      return { hadCache: true, error: null };
+    }
+  }
+
+  const { data, error } = await fetcher();
+  if (error) {
+    return { hadCache: !!cached, error };
+  }
+
+  onData(data, false);
+  await writeCache(key, data);
+  return { hadCache: !!cached, error: null };
+}
@@ -0,0 +1,116 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { stockAtBranch, totalStock } from './branchAvailability';
+import type { Category, Product } from '../types';
+
+const CATALOG_FILTERS_KEY_PREFIX = 'puntosclub:catalog-filters:';
+
+export type CatalogSort = 'points_asc' | 'points_desc' | 'newest' | 'closest';
+
+/** Catalog filters remembered per organization. The search text is not kept. */
+export type CatalogFilters = {
+  categoryId: string | null;
+  affordableOnly: boolean;
+  inStockOnly: boolean;
+  sort: CatalogSort;
+};
+
+export const DEFAULT_CATALOG_FILTERS: CatalogFilters = {
+  categoryId: null,
+  affordableOnly: false,
+  inStockOnly: false,
+  sort: 'points_asc',
+};
+
+export const CATALOG_SORT_OPTIONS: { value: CatalogSort; label: string }[] = [
+  { value: 'points_asc', label: 'Menos puntos' },
+  { value: 'points_desc', label: 'Mas puntos' },
+  { value: 'newest', label: 'Mas nuevos' },
+  { value: 'closest', label: 'Mas cerca de alcanzar' },
+];
+
+export async function getCatalogFilters(organizationId: string): Promise<CatalogFilters> {
+  try {
+    const raw = await AsyncStorage.getItem(`${CATALOG_FILTERS_KEY_PREFIX}${organizationId}`);
+    // Spread over the defaults so filters added later get a value
+    return raw ? { ...DEFAULT_CATALOG_FILTERS, ...(JSON.parse(raw) as Partial<CatalogFilters>) } : DEFAULT_CATALOG_FILTERS;
+  } catch {
+    return DEFAULT_CATALOG_FILTERS;
+  }
+}
+
+export async function setCatalogFilters(organizationId: string, filters: CatalogFilters) {
+  await AsyncStorage.setItem(`${CATALOG_FILTERS_KEY_PREFIX}${organizationId}`, JSON.stringify(filters));
+}
+
+export function isDefaultCatalogFilters(filters: CatalogFilters) {
+  return (Object.keys(DEFAULT_CATALOG_FILTERS) as (keyof CatalogFilters)[]).every(
+    (key) => filters[key] === DEFAULT_CATALOG_FILTERS[key]
+  );
+}
+
+/** Categories present in the catalog, by name. */
+export function listCategories(products: Product[]): Category[] {
+  const categories = new Map<string, Category>();
+  for (const product of products) {
+    if (product.category && !categories.has(product.category.id)) {
+      categories.set(product.category.id, product.category);
+    }
+  }
+  return [...categories.values()].sort((a, b) => a.name.localeCompare(b.name, 'es'));
+}
+
+// Case and accent insensitive, so "cafe" finds "Café"
+function normalize(text: string) {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/** What `sort` orders by, smallest first. Lets lists from different catalogs be ordered the same way. */
+export function catalogSortKey(product: Product, sort: CatalogSort, availablePoints: number) {
+  switch (sort) {
+    case 'points_asc':
+      return product.required_points;
+    case 'points_desc':
+      return -product.required_points;
+    case 'newest':
+      return -new Date(product.creation_date).getTime();
+    case 'closest':
+      return Math.max(0, product.required_points - availablePoints);
+  }
+}
+
+function compareProducts(sort: CatalogSort, availablePoints: number) {
+  return (a: Product, b: Product) =>
+    catalogSortKey(a, sort, availablePoints) - catalogSortKey(b, sort, availablePoints) ||
+    // Among affordable ones the priciest is closest to the balance
+    (sort === 'closest' ? b.required_points - a.required_points : 0);
+}
+
+/**
+ * Applies search, filters and sort. With a branch selected, "con stock"
+ * means stock at that branch.
+ */
+export function applyCatalogFilters(
+  products: Product[],
+  filters: CatalogFilters,
+  { query, availablePoints, branchId }: { query: string; availablePoints: number; branchId: string | null }
+) {
+  const terms = normalize(query).split(/\s+/).filter(Boolean);
+
+  return products
+    .filter((product) => {
+      if (filters.categoryId && product.category_id !== filters.categoryId) return false;
+      if (filters.affordableOnly && product.required_points > availablePoints) return false;
+      if (filters.inStockOnly) {
+        const stock = branchId ? stockAtBranch(product, branchId) : totalStock(product);
+        if (stock <= 0) return false;
+      }
+      if (terms.length === 0) return true;
+
+      const haystack = normalize(
+        [product.name, product.description, product.category?.name].filter(Boolean).join(' ')
+      );
+      return terms.every((term) => haystack.includes(term));
+    })
+    .sort(compareProducts(filters.sort, availablePoints));
+}
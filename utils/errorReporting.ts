@@ -0,0 +1,175 @@
+/**
+ * Error reporting with pluggable sinks. Screens and modules call
+ * `reportError` instead of swallowing exceptions; every report carries the
+ * recent breadcrumbs (screens visited, actions taken, failed requests) and
+ * is scrubbed of personal data before any sink sees it.
+ */
+
+export type BreadcrumbCategory = 'navigation' | 'action' | 'request';
+
+export type Breadcrumb = {
+  timestamp: string;
+  category: BreadcrumbCategory;
+  message: string;
+  data?: Record<string, unknown>;
+};
+
+export type ErrorLevel = 'error' | 'warning' | 'fatal';
+
+export type ErrorReport = {
+  id: string;
+  timestamp: string;
+  level: ErrorLevel;
+  name: string;
+  message: string;
+  stack: string | null;
+  /** Where the error was caught, e.g. `AuthContext.fetchBeneficiary`. */
+  source: string;
+  context: Record<string, unknown>;
+  breadcrumbs: Breadcrumb[];
+  /** Opaque beneficiary id; never a name or email. */
+  userId: string | null;
+  screen: string | null;
+};
+
+export interface ErrorSink {
+  write(report: ErrorReport): void | Promise<void>;
+}
+
+const MAX_BREADCRUMBS = 30;
+const REDACTED = '[redacted]';
+
+// Keys whose values are personal data no matter what they contain.
+const PII_KEYS = /^(email|phone|first_?name|last_?name|full_?name|document(_id)?|dni|cuit|password|token|access_token|refresh_token|authorization|street|address|holder_?name)$/i;
+
+const PII_PATTERNS: [RegExp, string][] = [
+  [/[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi, '[email]'],
+  [/\beyJ[\w-]+\.[\w-]+\.[\w-]+/g, '[jwt]'],
+  [/Bearer\s+[\w.-]+/gi, 'Bearer [token]'],
+  [/\b\d{2}-?\d{8}-?\d\b/g, '[cuit]'],
+  [/\+?\b\d{2,4}[\s-]?\d{3,4}[\s-]?\d{4}\b/g, '[phone]'],
+  [/\b\d{1,2}\.?\d{3}\.?\d{3}\b/g, '[dni]'],
+];
+
+// Opaque identifiers are kept as is so reports can be traced.
+const ID_KEYS = /(^id|_id|Id)$/;
+
+const sinks = new Set<ErrorSink>();
+const breadcrumbs: Breadcrumb[] = [];
+let currentUserId: string | null = null;
+let currentScreen: string | null = null;
+
+export function scrubString(value: string) {
+  return PII_PATTERNS.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), value);
+}
+
+/** Deep copy of `value` with PII keys redacted and PII-looking strings masked. */
+export function scrubPii<T>(value: T, depth: number = 0): T {
+  if (depth > 6) return REDACTED as T;
+  if (typeof value === 'string') return scrubString(value) as T;
+  if (Array.isArray(value)) return value.map((item) => scrubPii(item, depth + 1)) as T;
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (PII_KEYS.test(key)) {
+        result[key] = REDACTED;
+      } else if (ID_KEYS.test(key) && (typeof item === 'string' || typeof item === 'number')) {
+        result[key] = item;
+      } else {
+        result[key] = scrubPii(item, depth + 1);
+      }
+    }
+    return result as T;
+  }
+  return value;
+}
+
+export function addErrorSink(sink: ErrorSink) {
+  sinks.add(sink);
+  return () => {
+    sinks.delete(sink);
+  };
+}
+
+export function setReportingUser(userId: string | null) {
+  currentUserId = userId;
+}
+
+export function addBreadcrumb(category: BreadcrumbCategory, message: string, data?: Record<string, unknown>) {
+  breadcrumbs.push({ timestamp: new Date().toISOString(), category, message, data });
+  if (breadcrumbs.length > MAX_BREADCRUMBS) {
+    breadcrumbs.splice(0, breadcrumbs.length - MAX_BREADCRUMBS);
+  }
+}
+
+export function trackScreen(pathname: string) {
+  if (pathname === currentScreen) return;
+  currentScreen = pathname;
+  addBreadcrumb('navigation', pathname);
+}
+
+export function trackAction(message: string, data?: Record<string, unknown>) {
+  addBreadcrumb('action', message, data);
+}
+
+function createReportId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function describe(error: unknown) {
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, stack: error.stack ?? null };
+  }
+  if (error && typeof error === 'object' && 'message' in error) {
+    return { name: 'Error', message: String((error as { message: unknown }).message), stack: null };
+  }
+  return { name: 'Error', message: String(error), stack: null };
+}
+
+/**
+ * Hands the error to every sink. Never throws: a broken sink must not take
+ * the screen that was reporting down with it.
+ */
+export function reportError(
+  error: unknown,
+  source: string,
+  { level = 'error', context = {} }: { level?: ErrorLevel; context?: Record<string, unknown> } = {}
+) {
+  // Leaving a screen cancels its requests; that is not a failure.
+  if (error && typeof error === 'object' && 'kind' in error && error.kind === 'cancelled') return;
+
+  const { name, message, stack } = describe(error);
+  const extra = error && typeof error === 'object'
+    ? { code: (error as { code?: unknown }).code, kind: (error as { kind?: unknown }).kind }
+    : {};
+
+  const report: ErrorReport = {
+    id: createReportId(),
+    timestamp: new Date().toISOString(),
+    level,
+    name,
+    message: scrubString(message),
+    stack: stack && scrubString(stack),
+    source,
+    context: scrubPii({ ...extra, ...context }),
+    breadcrumbs: breadcrumbs.map((crumb) => ({
+      ...crumb,
+      message: scrubString(crumb.message),
+      data: crumb.data && scrubPii(crumb.data),
+    })),
+    userId: currentUserId,
+    screen: currentScreen && scrubString(currentScreen),
+  };
+
+  if (__DEV__) {
+    console.warn(`[${report.source}] ${report.message}`);
+  }
+
+  for (const sink of sinks) {
+    try {
+      Promise.resolve(sink.write(report)).catch(() => {});
+    } catch {
+      // See above: sinks fail silently by design.
+    }
+  }
+}
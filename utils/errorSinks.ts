@@ -0,0 +1,142 @@
+import { AppState } from 'react-native';
+import Constants from 'expo-constants';
+import { File, Paths } from 'expo-file-system';
+
+import { addErrorSink, reportError, type ErrorReport, type ErrorSink } from './errorReporting';
+import { fetchJson } from './request';
+
+const LOG_FILE_NAME = 'error-reports.log';
+const MAX_LOG_FILE_BYTES = 256 * 1024;
+const MAX_ROTATED_FILES = 2;
+
+/**
+ * Appends one JSON line per report to a log file in the document directory.
+ * When the file passes `maxBytes` it is rotated to `.1`, `.1` to `.2`, and so
+ * on; the oldest is dropped, so the log never grows past a few hundred KB.
+ */
+export function createFileSink({
+  fileName = LOG_FILE_NAME,
+  maxBytes = MAX_LOG_FILE_BYTES,
+  maxFiles = MAX_ROTATED_FILES,
+}: { fileName?: string; maxBytes?: number; maxFiles?: number } = {}): ErrorSink {
+  const fileAt = (index: number) =>
+    new File(Paths.document, index === 0 ? fileName : `${fileName}.${index}`);
+
+  const rotate = () => {
+    const oldest = fileAt(maxFiles);
+    if (oldest.exists) oldest.delete();
+    for (let index = maxFiles - 1; index >= 0; index--) {
+      const file = fileAt(index);
+      if (file.exists) file.move(fileAt(index + 1));
+    }
+  };
+
+  return {
+    write(report) {
+      const file = fileAt(0);
+      if (file.exists && file.size >= maxBytes) rotate();
+
+      const current = fileAt(0);
+      if (!current.exists) current.create();
+      current.write(`${JSON.stringify(report)}\n`, { append: true });
+    },
+  };
+}
+
+/**
+ * Buffers reports and POSTs them to `endpoint` in batches: when `batchSize`
+ * is reached, every `flushIntervalMs`, and when the app goes to background.
+ * Failed batches go back in the queue, capped at `maxQueued`, so being
+ * offline for a day does not grow memory without bound.
+ */
+export function createUploadSink({
+  endpoint,
+  batchSize = 20,
+  flushIntervalMs = 60 * 1000,
+  maxQueued = 200,
+}: {
+  endpoint: string;
+  batchSize?: number;
+  flushIntervalMs?: number;
+  maxQueued?: number;
+}): ErrorSink & { flush: () => Promise<void>; dispose: () => void } {
+  let queue: ErrorReport[] = [];
+  let flushing: Promise<void> | null = null;
+
+  const flush = async () => {
+    if (flushing || queue.length === 0) return flushing ?? undefined;
+
+    const batch = queue.slice(0, batchSize);
+    queue = queue.slice(batch.length);
+
+    flushing = fetchJson(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        app: Constants.expoConfig?.slug,
+        version: Constants.expoConfig?.version,
+        reports: batch,
+      }),
+    }, { timeoutMs: 10000 })
+      .then(() => undefined)
+      .catch(() => {
+        // Reporting the upload failure would only queue another report.
+        queue = [...batch, ...queue].slice(-maxQueued);
+      })
+      .finally(() => {
+        flushing = null;
+      });
+
+    return flushing;
+  };
+
+  const intervalId = setInterval(flush, flushIntervalMs);
+  const appStateSubscription = AppState.addEventListener('change', (state) => {
+    if (state === 'background') flush();
+  });
+
+  return {
+    write(report) {
+      queue = [...queue, report].slice(-maxQueued);
+      if (queue.length >= batchSize) flush();
+    },
+    flush,
+    dispose() {
+      clearInterval(intervalId);
+      appStateSubscription.remove();
+    },
+  };
+}
+
+type GlobalErrorHandler = (error: unknown, isFatal?: boolean) => void;
+
+declare const ErrorUtils: {
+  getGlobalHandler(): GlobalErrorHandler;
+  setGlobalHandler(handler: GlobalErrorHandler): void;
+};
+
+let configured = false;
+
+/**
+ * Registers the default sinks from `extra.errorReporting` in app config and
+ * catches uncaught JS errors. Safe to call more than once.
+ */
+export function setupErrorReporting() {
+  if (configured) return;
+  configured = true;
+
+  addErrorSink(createFileSink());
+
+  const endpoint: string | undefined = Constants.expoConfig?.extra?.errorReporting?.endpoint;
+  if (endpoint) {
+    addErrorSink(createUploadSink({ endpoint }));
+  }
+
+  if (typeof ErrorUtils !== 'undefined') {
+    const previousHandler = ErrorUtils.getGlobalHandler();
+    ErrorUtils.setGlobalHandler((error, isFatal) => {
+      reportError(error, 'global', { level: isFatal ? 'fatal' : 'error' });
+      previousHandler(error, isFatal);
+    });
+  }
+}
@@ -0,0 +1,150 @@
+import { createReceiptClaim, findReceiptClaimByInvoice } from '../repositories/receiptClaims';
+import type { Organization, ReceiptClaim } from '../types';
+
+// AFIP electronic invoices print a QR pointing to this URL with the invoice
+// data as base64 JSON in the `p` query param (RG 4291 spec, version 1).
+const AFIP_QR_URL_PATTERN = /^https?:\/\/(www\.)?(afip|arca)\.gob\.ar\/fe\/qr\/?\?p=/i;
+
+type AfipQrPayload = {
+  ver: number;
+  fecha: string;
+  cuit: number | string;
+  ptoVta: number;
+  tipoCmp: number;
+  nroCmp: number;
+  importe: number;
+  moneda: string;
+  ctz: number;
+  tipoDocRec?: number;
+  nroDocRec?: number;
+  tipoCodAut: string;
+  codAut: number | string;
+};
+
+export type FiscalReceipt = {
+  issuerCuit: string;
+  pointOfSale: number;
+  invoiceType: number;
+  invoiceNumber: number;
+  amount: number;
+  currency: string;
+  date: string;
+  authorizationCode: string;
+};
+
+export function normalizeCuit(value: string | number | null | undefined) {
+  return (value ?? '').toString().replace(/\D/g, '');
+}
+
+export function formatInvoiceNumber(receipt: Pick<FiscalReceipt, 'pointOfSale' | 'invoiceNumber'>) {
+  return `${receipt.pointOfSale.toString().padStart(5, '0')}-${receipt.invoiceNumber.toString().padStart(8, '0')}`;
+}
+
+function base64ToString(value: string) {
+  const base64 = decodeURIComponent(value).replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  return atob(padded);
+}
+
+/**
+ * Decodes the QR printed on AFIP electronic receipts. Returns a specific
+ * error for QRs that are not fiscal receipts or carry incomplete data.
+ */
+export function parseFiscalReceiptQr(raw: string): { receipt: FiscalReceipt | null; error: Error | null } {
+  const value = raw.trim();
+
+  if (!AFIP_QR_URL_PATTERN.test(value)) {
+    return { receipt: null, error: new Error('Este QR no es de una factura electronica. Escanea el QR impreso en tu ticket.') };
+  }
+
+  let payload: AfipQrPayload;
+  try {
+    payload = JSON.parse(base64ToString(value.split('?p=')[1].split('&')[0]));
+  } catch {
+    return { receipt: null, error: new Error('No se pudo leer el QR de la factura.') };
+  }
+
+  const issuerCuit = normalizeCuit(payload.cuit);
+  const amount = Number(payload.importe);
+
+  if (issuerCuit.length !== 11 || !payload.ptoVta || !payload.nroCmp || !payload.tipoCmp) {
+    return { receipt: null, error: new Error('El QR de la factura esta incompleto.') };
+  }
+
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return { receipt: null, error: new Error('El importe de la factura no es valido.') };
+  }
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(payload.fecha)) {
+    return { receipt: null, error: new Error('La fecha de la factura no es valida.') };
+  }
+
+  return {
+    receipt: {
+      issuerCuit,
+      pointOfSale: Number(payload.ptoVta),
+      invoiceType: Number(payload.tipoCmp),
+      invoiceNumber: Number(payload.nroCmp),
+      amount,
+      currency: payload.moneda || 'PES',
+      date: payload.fecha,
+      authorizationCode: (payload.codAut ?? '').toString(),
+    },
+    error: null,
+  };
+}
+
+export function findOrganizationByCuit(organizations: Organization[], cuit: string) {
+  return organizations.find((org) => normalizeCuit(org.tax_id) === cuit) ?? null;
+}
+
+/**
+ * Submits a points claim for backend review. The same invoice can only be
+ * claimed once; a duplicate is reported before inserting, and the unique
+ * constraint on the table catches races between devices.
+ */
+export async function submitReceiptClaim(
+  beneficiaryId: string,
+  organizationId: string,
+  receipt: FiscalReceipt
+): Promise<{ claim: ReceiptClaim | null; error: Error | null }> {
+  try {
+    const { data: existing } = await findReceiptClaimByInvoice(receipt);
+
+    if (existing) {
+      return {
+        claim: null,
+        error: new Error(
+          existing.beneficiary_id === beneficiaryId
+            ? 'Ya cargaste esta factura. Podes ver su estado en Mis tickets.'
+            : 'Esta factura ya fue reclamada por otra cuenta.'
+        ),
+      };
+    }
+
+    const { data, error } = await createReceiptClaim({
+      beneficiary_id: beneficiaryId,
+      organization_id: organizationId,
+      issuer_cuit: receipt.issuerCuit,
+      invoice_type: receipt.invoiceType,
+      point_of_sale: receipt.pointOfSale,
+      invoice_number: receipt.invoiceNumber,
+      amount: receipt.amount,
+      currency: receipt.currency,
+      receipt_date: receipt.date,
+      authorization_code: receipt.authorizationCode,
+      status: 'pending',
+    });
+
+    if (error) {
+      if (error.code === '23505') {
+        return { claim: null, error: new Error('Esta factura ya fue reclamada.') };
+      }
+      return { claim: null, error: new Error('Error al enviar el reclamo: ' + error.message) };
+    }
+
+    return { claim: data, error: null };
+  } catch (error) {
+    return { claim: null, error: error as Error };
+  }
+}
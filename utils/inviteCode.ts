@@ -0,0 +1,121 @@
+import { ed25519 } from '@noble/curves/ed25519.js';
+import { hexToBytes, utf8ToBytes } from '@noble/hashes/utils.js';
+import Constants from 'expo-constants';
+
+// Printed invite codes look like `PCI1.<payload>.<signature>`, both parts
+// base64url encoded. The prefix carries the schema version so older posters
+// keep scanning after the format evolves.
+const INVITE_CODE_PREFIX = 'PCI';
+export const INVITE_CODE_VERSION = 1;
+
+export type InviteCode = {
+  version: number;
+  organizationId: string;
+  organizationName: string;
+  branchId: string | null;
+  campaignTags: string[];
+  expiresAt: Date | null;
+};
+
+type InviteCodePayload = {
+  v: number;
+  org: string | number;
+  name: string;
+  branch?: string | number | null;
+  tags?: string[];
+  exp?: number | null;
+};
+
+function base64UrlToBytes(value: string) {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function base64UrlToString(value: string) {
+  const bytes = base64UrlToBytes(value);
+  let encoded = '';
+  for (let i = 0; i < bytes.length; i++) {
+    encoded += '%' + bytes[i].toString(16).padStart(2, '0');
+  }
+  return decodeURIComponent(encoded);
+}
+
+function getInviteCodePublicKey() {
+  const key = Constants.expoConfig?.extra?.inviteCodePublicKey;
+  return typeof key === 'string' && /^[0-9a-f]{64}$/i.test(key) ? key : null;
+}
+
+function fail(message: string) {
+  return { invite: null, error: new Error(message) };
+}
+
+/**
+ * Parses and verifies an organization invite code. Only the signed payload
+ * is trusted, so a forged QR can't claim a different organization name.
+ */
+export function parseInviteCode(
+  raw: string,
+  now: Date = new Date()
+): { invite: InviteCode | null; error: Error | null } {
+  const parts = raw.trim().split('.');
+
+  if (parts.length !== 3 || !parts[0].startsWith(INVITE_CODE_PREFIX)) {
+    if (raw.trim().startsWith('{')) {
+      return fail('Este QR no tiene firma. Pedi al personal un codigo actualizado.');
+    }
+    return fail('Codigo QR no valido. Por favor escanea un QR de organizacion.');
+  }
+
+  const [header, encodedPayload, encodedSignature] = parts;
+  const version = Number(header.slice(INVITE_CODE_PREFIX.length));
+
+  if (version !== INVITE_CODE_VERSION) {
+    return fail('Este codigo de invitacion no es compatible con tu version de la app. Actualiza la app e intenta nuevamente.');
+  }
+
+  const publicKey = getInviteCodePublicKey();
+  if (!publicKey) {
+    return fail('No se pudo verificar el codigo de invitacion.');
+  }
+
+  let payload: InviteCodePayload;
+  let valid = false;
+  try {
+    const signedMessage = utf8ToBytes(`${header}.${encodedPayload}`);
+    valid = ed25519.verify(base64UrlToBytes(encodedSignature), signedMessage, hexToBytes(publicKey));
+    payload = JSON.parse(base64UrlToString(encodedPayload));
+  } catch {
+    return fail('No se pudo leer el codigo QR. Asegurate de escanear un QR valido de organizacion.');
+  }
+
+  if (!valid) {
+    return fail('La firma del codigo no es valida. Este QR podria ser falso.');
+  }
+
+  if (payload.v !== version || !payload.org || !payload.name) {
+    return fail('El codigo de invitacion esta incompleto.');
+  }
+
+  const expiresAt = payload.exp ? new Date(payload.exp * 1000) : null;
+  if (expiresAt && expiresAt.getTime() <= now.getTime()) {
+    return fail(`Este codigo de invitacion vencio el ${expiresAt.toLocaleDateString('es-AR')}.`);
+  }
+
+  return {
+    invite: {
+      version,
+      organizationId: payload.org.toString(),
+      organizationName: payload.name,
+      branchId: payload.branch != null ? payload.branch.toString() : null,
+      campaignTags: Array.isArray(payload.tags) ? payload.tags.filter((tag) => typeof tag === 'string') : [],
+      expiresAt,
+    },
+    error: null,
+  };
+}
@@ -0,0 +1,158 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { supabase } from './supabase';
+import { executeRequest } from './request';
+import type { Organization } from '../types';
+
+// Crockford base32: no I, L, O or U, so codes read aloud or typed from a
+// poster are hard to get wrong. Codes are 7 data chars plus a check char.
+const JOIN_CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+export const JOIN_CODE_LENGTH = 8;
+
+const JOIN_CODE_ATTEMPTS_KEY = 'puntosclub:join-code-attempts';
+const MAX_FAILED_ATTEMPTS = 5;
+const BASE_LOCKOUT_MS = 60 * 1000;
+
+// Raised by `resolve_organization_join_code` once the account has missed too
+// many codes; `details` carries the seconds left. The server is what stops
+// guessing, the local counter below only saves round trips.
+const TOO_MANY_ATTEMPTS = 'PC005';
+
+export type JoinCodeLookup = {
+  organization: Organization | null;
+  error: Error | null;
+  /** The server looked the code up and no organization has it. */
+  notFound: boolean;
+  /** The server refused the lookup after too many misses: milliseconds to wait. */
+  lockedMs: number;
+};
+
+type FailedAttempts = {
+  count: number;
+  lockedUntil: number | null;
+  lockouts: number;
+};
+
+export function normalizeJoinCode(input: string) {
+  return input
+    .toUpperCase()
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1')
+    .split('')
+    .filter((char) => JOIN_CODE_ALPHABET.includes(char))
+    .join('')
+    .slice(0, JOIN_CODE_LENGTH);
+}
+
+/** Formats user input as `XXXX-XXXX` while they type. */
+export function formatJoinCode(input: string) {
+  const code = normalizeJoinCode(input);
+  return code.length > 4 ? `${code.slice(0, 4)}-${code.slice(4)}` : code;
+}
+
+// Luhn mod N over the code alphabet: catches every single-char typo and
+// most adjacent swaps before we spend a lookup on them.
+function computeCheckChar(data: string) {
+  const n = JOIN_CODE_ALPHABET.length;
+  let factor = 2;
+  let sum = 0;
+
+  for (let i = data.length - 1; i >= 0; i--) {
+    let addend = factor * JOIN_CODE_ALPHABET.indexOf(data[i]);
+    factor = factor === 2 ? 1 : 2;
+    addend = Math.floor(addend / n) + (addend % n);
+    sum += addend;
+  }
+
+  return JOIN_CODE_ALPHABET[(n - (sum % n)) % n];
+}
+
+export function isValidJoinCode(input: string) {
+  const code = normalizeJoinCode(input);
+  if (code.length !== JOIN_CODE_LENGTH) return false;
+  return computeCheckChar(code.slice(0, -1)) === code.slice(-1);
+}
+
+async function loadFailedAttempts(): Promise<FailedAttempts> {
+  try {
+    const raw = await AsyncStorage.getItem(JOIN_CODE_ATTEMPTS_KEY);
+    return raw ? JSON.parse(raw) : { count: 0, lockedUntil: null, lockouts: 0 };
+  } catch {
+    return { count: 0, lockedUntil: null, lockouts: 0 };
+  }
+}
+
+/** Milliseconds left before another code can be tried, or 0. */
+export async function getJoinCodeLockout(now: number = Date.now()) {
+  const attempts = await loadFailedAttempts();
+  return attempts.lockedUntil && attempts.lockedUntil > now ? attempts.lockedUntil - now : 0;
+}
+
+/**
+ * Records a code the server did not find. Every `MAX_FAILED_ATTEMPTS` misses
+ * lock the form, doubling the wait each time. Only a hint that spares
+ * pointless lookups; the limit itself is enforced server-side.
+ */
+export async function recordFailedJoinCodeAttempt(now: number = Date.now()) {
+  const attempts = await loadFailedAttempts();
+  const count = attempts.count + 1;
+  let next: FailedAttempts = { ...attempts, count };
+
+  if (count >= MAX_FAILED_ATTEMPTS) {
+    next = {
+      count: 0,
+      lockouts: attempts.lockouts + 1,
+      lockedUntil: now + BASE_LOCKOUT_MS * 2 ** attempts.lockouts,
+    };
+  }
+
+  await AsyncStorage.setItem(JOIN_CODE_ATTEMPTS_KEY, JSON.stringify(next));
+  return next.lockedUntil && next.lockedUntil > now ? next.lockedUntil - now : 0;
+}
+
+export async function resetJoinCodeAttempts() {
+  await AsyncStorage.removeItem(JOIN_CODE_ATTEMPTS_KEY);
+}
+
+export async function resolveJoinCode(input: string): Promise<JoinCodeLookup> {
+  const unavailable = {
+    organization: null,
+    error: new Error('No se pudo verificar el codigo. Intenta nuevamente.'),
+    notFound: false,
+    lockedMs: 0,
+  };
+
+  try {
+    const { data, error } = await executeRequest((signal) => supabase
+      .rpc('resolve_organization_join_code', { p_code: normalizeJoinCode(input) })
+      .abortSignal(signal)
+      .maybeSingle());
+
+    if (error?.code === TOO_MANY_ATTEMPTS) {
+      const seconds = Number(error.details);
+      return {
+        organization: null,
+        error: new Error('Demasiados intentos fallidos. Espera un momento antes de volver a intentar.'),
+        notFound: false,
+        lockedMs: Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : BASE_LOCKOUT_MS,
+      };
+    }
+
+    if (error) {
+      return unavailable;
+    }
+
+    if (!data) {
+      return {
+        organization: null,
+        error: new Error('No encontramos una organizacion con ese codigo.'),
+        notFound: true,
+        lockedMs: 0,
+      };
+    }
+
+    return { organization: data, error: null, notFound: false, lockedMs: 0 };
+  } catch {
+    return unavailable;
+  }
+}
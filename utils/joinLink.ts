@@ -0,0 +1,31 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const PENDING_JOIN_KEY = 'puntosclub:pending-join';
+export const SITE_URL = process.env.EXPO_PUBLIC_SITE_URL || 'https://puntos-club-admin.vercel.app';
+
+/**
+ * Shareable join link. The https form opens the app through universal/app
+ * links when installed and falls back to the website otherwise.
+ */
+export function buildJoinUrl(organizationId: string, scheme: 'https' | 'app' = 'https') {
+  const path = `join/${encodeURIComponent(organizationId)}`;
+  return scheme === 'app' ? `puntosclub://${path}` : `${SITE_URL}/${path}`;
+}
+
+// A join link opened while signed out is parked here so the flow can resume
+// after sign-in, even if the app is closed while confirming the email.
+export async function savePendingJoin(organizationId: string) {
+  await AsyncStorage.setItem(PENDING_JOIN_KEY, organizationId);
+}
+
+export async function consumePendingJoin(): Promise<string | null> {
+  try {
+    const organizationId = await AsyncStorage.getItem(PENDING_JOIN_KEY);
+    if (organizationId) {
+      await AsyncStorage.removeItem(PENDING_JOIN_KEY);
+    }
+    return organizationId;
+  } catch {
+    return null;
+  }
+}
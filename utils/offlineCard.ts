@@ -0,0 +1,101 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { supabase } from './supabase';
+import { classifyError, executeQuery } from './request';
+import type { Beneficiary } from '../types';
+
+const OFFLINE_CARD_KEY = 'puntosclub:offline-card';
+
+// How many tokens to ask for per batch, and when to top the batch up.
+const OFFLINE_TOKEN_BATCH_SIZE = 14;
+const OFFLINE_TOKEN_MIN_REMAINING = 4;
+
+export type OfflineQrToken = {
+  id: string;
+  signature: string;
+  valid_from: string;
+  valid_until: string;
+};
+
+export type OfflineCard = {
+  beneficiary: Beneficiary;
+  tokens: OfflineQrToken[];
+  updatedAt: string;
+};
+
+export async function loadOfflineCard(): Promise<OfflineCard | null> {
+  try {
+    const raw = await AsyncStorage.getItem(OFFLINE_CARD_KEY);
+    return raw ? (JSON.parse(raw) as OfflineCard) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function saveOfflineCard(card: OfflineCard) {
+  await AsyncStorage.setItem(OFFLINE_CARD_KEY, JSON.stringify(card));
+}
+
+export async function clearOfflineCard() {
+  await AsyncStorage.removeItem(OFFLINE_CARD_KEY);
+}
+
+function dropExpiredTokens(tokens: OfflineQrToken[], now: number = Date.now()) {
+  return tokens.filter((token) => new Date(token.valid_until).getTime() > now);
+}
+
+/**
+ * Returns the pre-provisioned token whose validity window covers `now`, if
+ * any. Windows are issued back to back by the server, so at most one matches.
+ */
+export function pickOfflineToken(card: OfflineCard | null, now: number = Date.now()) {
+  if (!card) return null;
+
+  return card.tokens.find(
+    (token) =>
+      new Date(token.valid_from).getTime() <= now &&
+      new Date(token.valid_until).getTime() > now
+  ) ?? null;
+}
+
+/**
+ * Persists the beneficiary identity and tops up the batch of offline QR
+ * tokens when it runs low. Safe to call on every successful login.
+ */
+export async function provisionOfflineCard(beneficiary: Beneficiary): Promise<{ error: Error | null }> {
+  try {
+    const existing = await loadOfflineCard();
+    const sameBeneficiary = existing?.beneficiary.id === beneficiary.id;
+    let tokens = sameBeneficiary ? dropExpiredTokens(existing.tokens) : [];
+
+    if (tokens.length < OFFLINE_TOKEN_MIN_REMAINING) {
+      let issued: OfflineQrToken[];
+      try {
+        // Issuing is not idempotent (each call mints a new batch), so no retries.
+        issued = await executeQuery((signal) => supabase
+          .rpc('issue_offline_qr_tokens', { p_count: OFFLINE_TOKEN_BATCH_SIZE })
+          .abortSignal(signal));
+      } catch (error) {
+        await saveOfflineCard({ beneficiary, tokens, updatedAt: new Date().toISOString() });
+        return { error: error as Error };
+      }
+
+      const known = new Set(tokens.map((token) => token.id));
+      tokens = [...tokens, ...issued.filter((token) => !known.has(token.id))];
+    }
+
+    await saveOfflineCard({ beneficiary, tokens, updatedAt: new Date().toISOString() });
+    return { error: null };
+  } catch (error) {
+    return { error: error as Error };
+  }
+}
+
+/**
+ * Distinguishes "could not reach the server" from real auth or data errors,
+ * so callers can fall back to the offline card instead of signing out.
+ */
+export function isNetworkError(error: unknown) {
+  const kind = classifyError(error);
+  return kind === 'network' || kind === 'timeout';
+}
@@ -0,0 +1,191 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import Constants from 'expo-constants';
+
+import type { BeneficiaryOrganization, PointsExpirationBucket } from '../types';
+
+const REMINDER_DAYS_KEY = 'puntosclub:expiration-reminder-days';
+const REMINDER_ID_PREFIX = 'points-expiration:';
+// Reminders this device has scheduled, so a delivered one isn't sent again
+const SCHEDULED_REMINDERS_KEY = 'puntosclub:expiration-reminders';
+// Reminders go out mid-morning rather than at midnight
+const REMINDER_HOUR = 10;
+
+/** Buckets expiring within this many days are highlighted as "por vencer". */
+export const EXPIRING_SOON_DAYS = 30;
+
+export const REMINDER_DAY_OPTIONS = [3, 7, 14, 30] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ScheduledReminder = { at: number; points: number };
+
+let reconciling: Promise<void> = Promise.resolve();
+
+function defaultReminderDays(): number {
+  const configured = Constants.expoConfig?.extra?.pointsExpiration?.reminderDays;
+  return typeof configured === 'number' ? configured : 7;
+}
+
+/** Days ahead of an expiration to remind the user, or null when turned off. */
+export async function getReminderDays(): Promise<number | null> {
+  try {
+    const raw = await AsyncStorage.getItem(REMINDER_DAYS_KEY);
+    if (raw === null) return defaultReminderDays();
+    return raw === 'off' ? null : Number(raw);
+  } catch {
+    return defaultReminderDays();
+  }
+}
+
+export async function setReminderDays(days: number | null) {
+  await AsyncStorage.setItem(REMINDER_DAYS_KEY, days === null ? 'off' : String(days));
+}
+
+export function nextExpiration(membership: BeneficiaryOrganization): PointsExpirationBucket | null {
+  return membership.expiring_points?.[0] ?? null;
+}
+
+export function daysUntil(date: string, now: number = Date.now()) {
+  return Math.max(0, Math.ceil((new Date(date).getTime() - now) / DAY_MS));
+}
+
+export function isExpiringSoon(bucket: PointsExpirationBucket | null, now: number = Date.now()) {
+  return !!bucket && daysUntil(bucket.expires_at, now) <= EXPIRING_SOON_DAYS;
+}
+
+export function formatExpirationDate(date: string) {
+  return new Date(date).toLocaleDateString('es-AR', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'America/Argentina/Buenos_Aires',
+  });
+}
+
+/** Soonest expiration first; memberships with nothing expiring go last. */
+export function compareByExpiration(a: BeneficiaryOrganization, b: BeneficiaryOrganization) {
+  const aDate = nextExpiration(a)?.expires_at;
+  const bDate = nextExpiration(b)?.expires_at;
+  if (!aDate || !bDate) return aDate ? -1 : bDate ? 1 : 0;
+  return new Date(aDate).getTime() - new Date(bDate).getTime();
+}
+
+/**
+ * Changes only when a bucket appears, goes away or changes amount, so
+ * balance updates that leave the buckets alone don't touch the reminders.
+ */
+export function expirationFingerprint(memberships: BeneficiaryOrganization[]) {
+  return memberships
+    .flatMap((membership) =>
+      (membership.expiring_points ?? []).map(
+        (bucket) => `${membership.organization_id}:${bucket.expires_at}:${bucket.points}`
+      )
+    )
+    .sort()
+    .join('|');
+}
+
+// `days` before the expiration at REMINDER_HOUR. A bucket already inside the
+// window is reminded at the next REMINDER_HOUR instead of being dropped.
+function reminderTime(expiresAt: string, days: number, now: number) {
+  const expiration = new Date(expiresAt).getTime();
+  const remindAt = new Date(expiration - days * DAY_MS);
+  remindAt.setHours(REMINDER_HOUR, 0, 0, 0);
+  if (remindAt.getTime() > now) return remindAt;
+
+  const next = new Date(now);
+  next.setHours(REMINDER_HOUR, 0, 0, 0);
+  if (next.getTime() <= now) next.setDate(next.getDate() + 1);
+  return next.getTime() < expiration ? next : null;
+}
+
+function reminderIdentifier(membership: BeneficiaryOrganization, bucket: PointsExpirationBucket) {
+  return `${REMINDER_ID_PREFIX}${membership.organization_id}:${bucket.expires_at}`;
+}
+
+async function loadScheduledReminders(): Promise<Record<string, ScheduledReminder>> {
+  try {
+    const raw = await AsyncStorage.getItem(SCHEDULED_REMINDERS_KEY);
+    return raw ? (JSON.parse(raw) as Record<string, ScheduledReminder>) : {};
+  } catch {
+    return {};
+  }
+}
+
+async function reconcileReminders(memberships: BeneficiaryOrganization[], days: number | null) {
+  const now = Date.now();
+  const wanted = new Map<string, { reminder: ScheduledReminder; request: Notifications.NotificationRequestInput }>();
+
+  if (days !== null) {
+    for (const membership of memberships) {
+      for (const bucket of membership.expiring_points ?? []) {
+        const remindAt = reminderTime(bucket.expires_at, days, now);
+        if (!remindAt) continue;
+
+        const identifier = reminderIdentifier(membership, bucket);
+        const organizationName = membership.organization?.name || 'tu organizacion';
+        wanted.set(identifier, {
+          reminder: { at: remindAt.getTime(), points: bucket.points },
+          request: {
+            identifier,
+            content: {
+              title: 'Tus puntos estan por vencer',
+              body: `${bucket.points.toLocaleString()} puntos en ${organizationName} vencen el ${formatExpirationDate(bucket.expires_at)}.`,
+              data: { url: `/(app)/organization/${membership.organization_id}` },
+            },
+            trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: remindAt },
+          },
+        });
+      }
+    }
+  }
+
+  const buckets = new Set(
+    memberships.flatMap((membership) =>
+      (membership.expiring_points ?? []).map((bucket) => reminderIdentifier(membership, bucket))
+    )
+  );
+  const previous = await loadScheduledReminders();
+  const next: Record<string, ScheduledReminder> = {};
+
+  for (const [identifier, reminder] of Object.entries(previous)) {
+    if (wanted.has(identifier)) continue;
+    if (reminder.at > now) {
+      await Notifications.cancelScheduledNotificationAsync(identifier);
+    } else if (buckets.has(identifier)) {
+      // Delivered: remember it while the bucket exists, even with reminders
+      // off, so turning them back on doesn't send it again
+      next[identifier] = reminder;
+    }
+  }
+
+  for (const [identifier, { reminder, request }] of wanted) {
+    const prev = previous[identifier];
+    // Already delivered, or still pending as wanted: leave it alone
+    if (prev && (prev.at <= now || (prev.at === reminder.at && prev.points === reminder.points))) {
+      next[identifier] = prev;
+      continue;
+    }
+    if (prev) {
+      await Notifications.cancelScheduledNotificationAsync(identifier);
+    }
+    await Notifications.scheduleNotificationAsync(request);
+    next[identifier] = reminder;
+  }
+
+  await AsyncStorage.setItem(SCHEDULED_REMINDERS_KEY, JSON.stringify(next));
+}
+
+/**
+ * Brings the scheduled expiration reminders in line with the buckets: one per
+ * bucket, `days` before it expires. Only reminders that changed are
+ * cancelled or scheduled, one that already went out is not sent again, and
+ * `days === null` clears them. Runs one at a time so overlapping calls can't
+ * duplicate or lose reminders.
+ */
+export function scheduleExpirationReminders(memberships: BeneficiaryOrganization[], days: number | null) {
+  const run = reconciling.then(() => reconcileReminders(memberships, days));
+  reconciling = run.catch(() => undefined);
+  return run;
+}
@@ -0,0 +1,48 @@
+import type { Ionicons } from '@expo/vector-icons';
+import type { PointsEntryType, PointsLedgerEntry } from '../types';
+
+type LedgerEntryMeta = { label: string; icon: keyof typeof Ionicons.glyphMap; color: string; background: string };
+
+const LEDGER_ENTRY_META: Record<PointsEntryType, LedgerEntryMeta> = {
+  accrual: { label: 'Compra', icon: 'cart-outline', color: '#059669', background: '#D1FAE5' },
+  redemption: { label: 'Canje', icon: 'gift-outline', color: '#DC2626', background: '#FEE2E2' },
+  adjustment: { label: 'Ajuste', icon: 'construct-outline', color: '#2563EB', background: '#DBEAFE' },
+  expiration: { label: 'Vencimiento', icon: 'hourglass-outline', color: '#D97706', background: '#FEF3C7' },
+};
+
+const UNKNOWN_ENTRY_META: LedgerEntryMeta = {
+  label: 'Movimiento',
+  icon: 'swap-horizontal-outline',
+  color: '#6B7280',
+  background: '#F3F4F6',
+};
+
+/**
+ * Display metadata for an entry type, with a neutral default for types the
+ * backend adds before the app knows them.
+ */
+export function getLedgerEntryMeta(type: string) {
+  return LEDGER_ENTRY_META[type as PointsEntryType] ?? UNKNOWN_ENTRY_META;
+}
+
+export function formatPointsDelta(points: number) {
+  return `${points > 0 ? '+' : ''}${points.toLocaleString()}`;
+}
+
+/**
+ * Balance after each entry, newest first. Anchored on the membership's
+ * current balance and walked backwards, so the top row always agrees with
+ * the card, however many pages are loaded. Points held by pending
+ * redemptions have no ledger row yet, so they count towards the anchor.
+ */
+export function withRunningBalance(
+  entries: PointsLedgerEntry[],
+  { available_points, held_points }: { available_points: number; held_points?: number }
+) {
+  let balance = available_points + (held_points ?? 0);
+  return entries.map((entry) => {
+    const row = { entry, balanceAfter: balance };
+    balance -= entry.points;
+    return row;
+  });
+}
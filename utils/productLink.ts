@@ -0,0 +1,14 @@
+import { SITE_URL } from './joinLink';
+
+/** In-app route of a product, also what push payloads carry to open it. */
+export function buildProductPath(organizationId: string, productId: string) {
+  return `/(app)/organization/${encodeURIComponent(organizationId)}/product/${encodeURIComponent(productId)}`;
+}
+
+/**
+ * Shareable product link. Like join links, the https form opens the app
+ * when installed and the website otherwise.
+ */
+export function buildProductUrl(organizationId: string, productId: string) {
+  return `${SITE_URL}/organization/${encodeURIComponent(organizationId)}/product/${encodeURIComponent(productId)}`;
+}
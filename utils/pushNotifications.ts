@@ -4,6 +4,9 @@ import { Platform } from 'react-native';
 import Constants from 'expo-constants';
 
 import { supabase } from './supabase';
+import { fetchJson } from './request';
+import { reportError } from './errorReporting';
+import { buildProductPath } from './productLink';
 
 Notifications.setNotificationHandler({
   handleNotification: async () => ({
@@ -52,7 +55,8 @@ export async function registerForPushNotificationsAsync() {
       });
       
       token = pushTokenData.data;
-    } catch (e) {
+    } catch (error) {
+      reportError(error, 'pushNotifications.registerForPushNotificationsAsync');
       return null;
     }
   } else {
@@ -85,7 +89,8 @@ export async function savePushTokenToBackend(expoPushToken: string) {
       return false;
     }
     
-    const response = await fetch(`${apiUrl}/api/push-tokens`, {
+    // The backend upserts by token, so registering twice is harmless.
+    await fetchJson(`${apiUrl}/api/push-tokens`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -96,15 +101,11 @@ export async function savePushTokenToBackend(expoPushToken: string) {
         deviceId,
         platform,
       }),
-    });
-
-    const data = await response.json();
+    }, { idempotent: true });
 
-    if (!response.ok) {
-      return false;
-    }
     return true;
   } catch (error) {
+    reportError(error, 'pushNotifications.savePushTokenToBackend');
     return false;
   }
 }
@@ -130,3 +131,33 @@ export function addNotificationResponseReceivedListener(
 ) {
   return Notifications.addNotificationResponseReceivedListener(callback);
 }
+
+/**
+ * Route a tapped notification should open. Payloads either carry a ready
+ * `url` or point at a product with `organizationId` and `productId`.
+ */
+export function getNotificationUrl(response: Notifications.NotificationResponse): string | null {
+  const data = response.notification.request.content.data ?? {};
+
+  if (typeof data.url === 'string') return data.url;
+  if (
+    (typeof data.organizationId === 'string' || typeof data.organizationId === 'number') &&
+    typeof data.productId === 'string'
+  ) {
+    return buildProductPath(String(data.organizationId), data.productId);
+  }
+  return null;
+}
+
+/**
+ * The notification tapped to launch the app, if any. The listener above only
+ * sees taps while the app is running. Cleared once read so a later launch
+ * does not open it again.
+ */
+export function consumeLaunchNotificationResponse() {
+  const response = Notifications.getLastNotificationResponse();
+  if (response) {
+    Notifications.clearLastNotificationResponse();
+  }
+  return response;
+}
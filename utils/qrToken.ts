@@ -0,0 +1,112 @@
+import { hmac } from '@noble/hashes/hmac.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils.js';
+
+import { supabase } from './supabase';
+import { executeQuery } from './request';
+import type { OfflineQrToken } from './offlineCard';
+
+// Bump when the payload layout or the signed message changes so cashier
+// apps can keep verifying older tokens during a rollout.
+export const QR_TOKEN_VERSION = 1;
+export const QR_TOKEN_PERIOD_SECONDS = 30;
+
+// Truncated HMAC length in hex chars (64 bits), enough for a 30s window
+// while keeping the QR small enough to scan from a cracked screen.
+const SIGNATURE_LENGTH = 16;
+
+export type BeneficiaryQrPayload = {
+  type: 'beneficiary';
+  v: number;
+  id: string;
+  t: number;
+  sig: string;
+};
+
+// Offline tokens are signed by the server ahead of time and identified by
+// `o`; the cashier app reconciles them once either side is back online.
+export type OfflineBeneficiaryQrPayload = {
+  type: 'beneficiary';
+  v: number;
+  id: string;
+  o: string;
+  sig: string;
+};
+
+export type BeneficiaryQrToken = {
+  value: string;
+  counter: number;
+  expiresAt: number;
+};
+
+export function getQrTokenCounter(now: number = Date.now()) {
+  return Math.floor(now / 1000 / QR_TOKEN_PERIOD_SECONDS);
+}
+
+function signQrToken(secret: string, beneficiaryId: string, counter: number) {
+  const message = `${QR_TOKEN_VERSION}:${beneficiaryId}:${counter}`;
+  const mac = hmac(sha256, hexToBytes(secret), utf8ToBytes(message));
+  return bytesToHex(mac).slice(0, SIGNATURE_LENGTH);
+}
+
+/**
+ * Builds the signed QR payload for the given time window. The payload only
+ * carries the beneficiary id, never email or name; the cashier app verifies
+ * the signature server-side with the same per-beneficiary secret.
+ */
+export function generateQrToken(
+  beneficiaryId: string,
+  secret: string,
+  counter: number = getQrTokenCounter()
+): BeneficiaryQrToken {
+  const payload: BeneficiaryQrPayload = {
+    type: 'beneficiary',
+    v: QR_TOKEN_VERSION,
+    id: beneficiaryId,
+    t: counter,
+    sig: signQrToken(secret, beneficiaryId, counter),
+  };
+
+  return {
+    value: JSON.stringify(payload),
+    counter,
+    expiresAt: (counter + 1) * QR_TOKEN_PERIOD_SECONDS * 1000,
+  };
+}
+
+export function buildOfflineQrToken(
+  beneficiaryId: string,
+  token: OfflineQrToken
+): BeneficiaryQrToken {
+  const payload: OfflineBeneficiaryQrPayload = {
+    type: 'beneficiary',
+    v: QR_TOKEN_VERSION,
+    id: beneficiaryId,
+    o: token.id,
+    sig: token.signature,
+  };
+
+  return {
+    value: JSON.stringify(payload),
+    counter: -1,
+    expiresAt: new Date(token.valid_until).getTime(),
+  };
+}
+
+export async function fetchQrSecret(): Promise<{ secret: string | null; error: Error | null }> {
+  try {
+    const data = await executeQuery(
+      (signal) => supabase.rpc('get_beneficiary_qr_secret').abortSignal(signal),
+      { idempotent: true }
+    );
+
+    // Whole bytes and at least 128 bits, or hexToBytes throws on every tick
+    if (typeof data !== 'string' || !/^(?:[0-9a-f]{2}){16,}$/i.test(data)) {
+      return { secret: null, error: new Error('Secreto de QR invalido') };
+    }
+
+    return { secret: data, error: null };
+  } catch (error) {
+    return { secret: null, error: error as Error };
+  }
+}
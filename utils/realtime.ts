@@ -0,0 +1,222 @@
+import type {
+  RealtimeChannel,
+  RealtimePostgresChangesFilter,
+  RealtimePostgresChangesPayload,
+} from '@supabase/supabase-js';
+
+import { supabase } from './supabase';
+import { addBreadcrumb, reportError } from './errorReporting';
+import type { Database } from '../types/database';
+
+/**
+ * One Supabase channel per table + filter, shared by every subscriber that
+ * asks for it. Channels are reference counted and closed when the last
+ * subscriber leaves. A channel that errors or times out is rebuilt with
+ * exponential backoff, and once it is back every subscriber's `onResync` runs
+ * so it can refetch whatever changed while events were not arriving.
+ */
+
+export type RealtimeStatus = 'idle' | 'connecting' | 'connected' | 'reconnecting';
+
+type TableName = keyof Database['public']['Tables'];
+type TableRow<T extends TableName> = Database['public']['Tables'][T]['Row'];
+
+type ChangeEvent = '*' | 'INSERT' | 'UPDATE' | 'DELETE';
+
+export type TableSubscription<T extends TableName> = {
+  table: T;
+  /** PostgREST-style filter, e.g. `beneficiary_id=eq.123`. */
+  filter?: string;
+  event?: ChangeEvent;
+};
+
+// Methods rather than function properties: a topic holds subscribers of its
+// own table only, and method parameters let `Subscriber<T>` widen to the
+// `Subscriber<TableName>` the shared topic map stores.
+type Subscriber<T extends TableName> = {
+  onChange(payload: RealtimePostgresChangesPayload<TableRow<T>>): void;
+  /** Runs after a dropped channel reconnects; refetch anything that may have been missed. */
+  onResync?(): void;
+};
+
+type Topic = {
+  key: string;
+  spec: TableSubscription<TableName>;
+  subscribers: Set<Subscriber<TableName>>;
+  channel: RealtimeChannel | null;
+  status: Exclude<RealtimeStatus, 'idle'>;
+  attempt: number;
+  hasConnected: boolean;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+};
+
+const BASE_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+const topics = new Map<string, Topic>();
+const statusListeners = new Set<() => void>();
+let currentStatus: RealtimeStatus = 'idle';
+// supabase.channel() hands back an existing channel with the same name, and
+// removeChannel() is async, so every channel we open gets a fresh name.
+let channelSequence = 0;
+
+function topicKey({ table, filter = '', event = '*' }: TableSubscription<TableName>) {
+  return `${table}:${event}:${filter}`;
+}
+
+function computeStatus(): RealtimeStatus {
+  if (topics.size === 0) return 'idle';
+  const statuses = [...topics.values()].map((topic) => topic.status);
+  if (statuses.includes('reconnecting')) return 'reconnecting';
+  if (statuses.includes('connecting')) return 'connecting';
+  return 'connected';
+}
+
+function publishStatus() {
+  const next = computeStatus();
+  if (next === currentStatus) return;
+  currentStatus = next;
+  statusListeners.forEach((listener) => listener());
+}
+
+function reconnectDelay(attempt: number) {
+  const ceiling = Math.min(MAX_RECONNECT_DELAY_MS, BASE_RECONNECT_DELAY_MS * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+function closeChannel(topic: Topic) {
+  const channel = topic.channel;
+  topic.channel = null;
+  if (channel) {
+    supabase.removeChannel(channel);
+  }
+}
+
+function scheduleReconnect(topic: Topic, reason: string, error?: Error) {
+  if (topic.retryTimer || !topics.has(topic.key)) return;
+
+  closeChannel(topic);
+  topic.status = 'reconnecting';
+  publishStatus();
+
+  addBreadcrumb('request', `realtime ${reason}`, { topic: topic.key, attempt: topic.attempt });
+  if (error) {
+    reportError(error, 'realtime.subscribe', { level: 'warning', context: { topic: topic.key, reason } });
+  }
+
+  const delay = reconnectDelay(topic.attempt);
+  topic.attempt += 1;
+  topic.retryTimer = setTimeout(() => {
+    topic.retryTimer = null;
+    if (topics.has(topic.key)) openChannel(topic);
+  }, delay);
+}
+
+function openChannel(topic: Topic) {
+  const { table, filter, event = '*' } = topic.spec;
+  const changes: RealtimePostgresChangesFilter<ChangeEvent> = {
+    event,
+    schema: 'public',
+    table,
+    ...(filter ? { filter } : {}),
+  };
+
+  const channel = supabase
+    .channel(`rt:${topic.key}:${++channelSequence}`)
+    .on(
+      'postgres_changes',
+      changes,
+      (payload: RealtimePostgresChangesPayload<TableRow<TableName>>) => {
+        topic.subscribers.forEach((subscriber) => subscriber.onChange(payload));
+      }
+    );
+
+  topic.channel = channel;
+
+  channel.subscribe((status, error) => {
+    // Ignore callbacks from a channel we already replaced or closed
+    if (topic.channel !== channel) return;
+
+    if (status === 'SUBSCRIBED') {
+      const isReconnect = topic.hasConnected || topic.attempt > 0;
+      topic.status = 'connected';
+      topic.attempt = 0;
+      topic.hasConnected = true;
+      publishStatus();
+
+      if (isReconnect) {
+        addBreadcrumb('request', 'realtime resync', { topic: topic.key });
+        topic.subscribers.forEach((subscriber) => subscriber.onResync?.());
+      }
+    } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+      scheduleReconnect(topic, status, error);
+    } else if (status === 'CLOSED') {
+      // The server closed a channel we still need
+      scheduleReconnect(topic, status);
+    }
+  });
+}
+
+/**
+ * Listens to changes on `table`. Subscribers asking for the same table,
+ * filter and event share one channel. Returns the unsubscribe function.
+ */
+export function subscribeToTable<T extends TableName>(
+  spec: TableSubscription<T>,
+  subscriber: Subscriber<T>
+) {
+  const key = topicKey(spec);
+  let topic = topics.get(key);
+
+  if (!topic) {
+    topic = {
+      key,
+      spec,
+      subscribers: new Set(),
+      channel: null,
+      status: 'connecting',
+      attempt: 0,
+      hasConnected: false,
+      retryTimer: null,
+    };
+    topics.set(key, topic);
+    openChannel(topic);
+    publishStatus();
+  }
+
+  topic.subscribers.add(subscriber);
+
+  const current = topic;
+  return () => {
+    current.subscribers.delete(subscriber);
+    if (current.subscribers.size > 0) return;
+
+    if (current.retryTimer) clearTimeout(current.retryTimer);
+    current.retryTimer = null;
+    topics.delete(current.key);
+    closeChannel(current);
+    publishStatus();
+  };
+}
+
+/** Closes every channel, e.g. on sign out. Subscribers are dropped. */
+export function closeAllRealtime() {
+  topics.forEach((topic) => {
+    if (topic.retryTimer) clearTimeout(topic.retryTimer);
+    topic.retryTimer = null;
+    closeChannel(topic);
+  });
+  topics.clear();
+  publishStatus();
+}
+
+export function getRealtimeStatus() {
+  return currentStatus;
+}
+
+export function subscribeToRealtimeStatus(listener: () => void) {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
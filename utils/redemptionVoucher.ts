@@ -0,0 +1,208 @@
+import type { Ionicons } from '@expo/vector-icons';
+import { cancelRedemption, requestRedemption } from '../repositories/redemptions';
+import { reportError, trackAction } from './errorReporting';
+import type { RedemptionStatus, RedemptionVoucher } from '../types';
+
+// Bump together with the cashier app when the payload layout changes.
+export const VOUCHER_QR_VERSION = 1;
+
+// SQLSTATEs raised by `request_redemption` when the reservation is refused.
+const INSUFFICIENT_POINTS = 'PC001';
+const OUT_OF_STOCK = 'PC002';
+const PENDING_VOUCHER_EXISTS = 'PC003';
+// Raised by `cancel_redemption` once the store has moved past pending.
+const NOT_CANCELLABLE = 'PC004';
+
+export const REDEMPTION_STATUS_META: Record<
+  RedemptionStatus,
+  { label: string; color: string; background: string; icon: keyof typeof Ionicons.glyphMap }
+> = {
+  pending: { label: 'Pendiente', color: '#D97706', background: '#FEF3C7', icon: 'hourglass-outline' },
+  approved: { label: 'Aprobado', color: '#2563EB', background: '#DBEAFE', icon: 'thumbs-up-outline' },
+  ready_for_pickup: { label: 'Listo para retirar', color: '#7C3AED', background: '#EDE9FE', icon: 'bag-check-outline' },
+  delivered: { label: 'Entregado', color: '#059669', background: '#D1FAE5', icon: 'checkmark-circle' },
+  completed: { label: 'Entregado', color: '#059669', background: '#D1FAE5', icon: 'checkmark-circle' },
+  cancelled: { label: 'Cancelado', color: '#DC2626', background: '#FEE2E2', icon: 'close-circle' },
+  expired: { label: 'Vencido', color: '#6B7280', background: '#F3F4F6', icon: 'time-outline' },
+};
+
+/**
+ * Display metadata for a status. Falls back to pending for anything the app
+ * doesn't know yet, so a status added on the server can't crash a list.
+ */
+export function getRedemptionStatusMeta(status: string) {
+  return REDEMPTION_STATUS_META[status as RedemptionStatus] ?? REDEMPTION_STATUS_META.pending;
+}
+
+// The happy path, in order. Cancelled and expired can end it at any open step.
+const LIFECYCLE: RedemptionStatus[] = ['pending', 'approved', 'ready_for_pickup', 'delivered'];
+
+const OPEN_STATUSES: RedemptionStatus[] = ['pending', 'approved', 'ready_for_pickup'];
+
+export type RedemptionTimelineStep = {
+  status: RedemptionStatus;
+  /** When the redemption reached this status; null for steps still ahead. */
+  changedAt: string | null;
+  note?: string | null;
+  state: 'done' | 'current' | 'upcoming';
+};
+
+export type VoucherQrPayload = {
+  type: 'redemption';
+  v: number;
+  id: string;
+  code: string;
+};
+
+/**
+ * QR shown to the cashier. It only identifies the redemption; the cashier
+ * app completes it server-side, which also checks it is still pending.
+ */
+export function buildVoucherQrValue(voucher: RedemptionVoucher) {
+  const payload: VoucherQrPayload = {
+    type: 'redemption',
+    v: VOUCHER_QR_VERSION,
+    id: voucher.id,
+    code: voucher.voucher_code,
+  };
+  return JSON.stringify(payload);
+}
+
+/** `K7Q2M9` -> `K7Q 2M9`, easier to read out loud at the till. */
+export function formatVoucherCode(code: string) {
+  if (code.length <= 4) return code;
+  const middle = Math.ceil(code.length / 2);
+  return `${code.slice(0, middle)} ${code.slice(middle)}`;
+}
+
+/** Still in progress and inside its pickup window, if it has one, so the voucher is shown. */
+export function isVoucherActive(
+  voucher: Pick<RedemptionVoucher, 'status' | 'expires_at'>,
+  now: number = Date.now()
+) {
+  return (
+    OPEN_STATUSES.includes(voucher.status) &&
+    (voucher.expires_at === null || new Date(voucher.expires_at).getTime() > now)
+  );
+}
+
+/**
+ * Status to show. An open voucher past its expiry is shown as expired until
+ * the server catches up, and a legacy completed one as delivered.
+ */
+export function displayedRedemptionStatus(
+  voucher: Pick<RedemptionVoucher, 'status' | 'expires_at'>,
+  now: number = Date.now()
+): RedemptionStatus {
+  if (voucher.status === 'completed') return 'delivered';
+  return OPEN_STATUSES.includes(voucher.status) && !isVoucherActive(voucher, now) ? 'expired' : voucher.status;
+}
+
+/** Only a pending request can be cancelled; once approved the store has set it aside. */
+export function canCancelRedemption(voucher: RedemptionVoucher, now: number = Date.now()) {
+  return voucher.status === 'pending' && isVoucherActive(voucher, now);
+}
+
+/** Points spent or still held; cancelled and expired redemptions give them back. */
+export function isRedemptionRefunded(status: RedemptionStatus) {
+  return status === 'cancelled' || status === 'expired';
+}
+
+/**
+ * Steps reached so far, from the status history, followed by the ones still
+ * ahead on the happy path. Falls back to the request time and the current
+ * status when the history is missing, e.g. for redemptions made at the till.
+ */
+export function buildRedemptionTimeline(voucher: RedemptionVoucher, now: number = Date.now()): RedemptionTimelineStep[] {
+  const status = displayedRedemptionStatus(voucher, now);
+  const events = voucher.events && voucher.events.length > 0
+    ? voucher.events
+    : [{ status: 'pending' as const, changed_at: voucher.requested_at }];
+
+  const reached: Omit<RedemptionTimelineStep, 'state'>[] = events.map((event) => ({
+    status: event.status,
+    changedAt: event.changed_at,
+    note: event.note,
+  }));
+  if (reached[reached.length - 1].status !== status) {
+    reached.push({
+      status,
+      changedAt: status === 'expired' ? voucher.expires_at : voucher.completed_at,
+    });
+  }
+
+  const steps: RedemptionTimelineStep[] = reached.map((step, index) => ({
+    ...step,
+    state: index === reached.length - 1 && OPEN_STATUSES.includes(status) ? 'current' : 'done',
+  }));
+
+  if (OPEN_STATUSES.includes(status)) {
+    for (const upcoming of LIFECYCLE.slice(LIFECYCLE.indexOf(status) + 1)) {
+      steps.push({ status: upcoming, changedAt: null, state: 'upcoming' });
+    }
+  }
+  return steps;
+}
+
+export async function submitRedemptionRequest(
+  productId: string,
+  branchId: string
+): Promise<{ voucher: RedemptionVoucher | null; error: Error | null }> {
+  trackAction('requestRedemption', { product_id: productId, branch_id: branchId });
+
+  const { data, error } = await requestRedemption(productId, branchId);
+
+  if (error) {
+    switch (error.code) {
+      case INSUFFICIENT_POINTS:
+        return { voucher: null, error: new Error('No tienes puntos suficientes para este producto.') };
+      case OUT_OF_STOCK:
+        return { voucher: null, error: new Error('Este producto ya no tiene stock en la sucursal elegida.') };
+      case PENDING_VOUCHER_EXISTS:
+        return { voucher: null, error: new Error('Ya tienes un canje pendiente para este producto.') };
+    }
+
+    reportError(error, 'redemptionVoucher.submitRedemptionRequest', {
+      context: { product_id: productId, branch_id: branchId },
+    });
+    return {
+      voucher: null,
+      error: new Error(
+        error.kind === 'network' || error.kind === 'timeout'
+          // The reservation may have gone through before the connection dropped
+          ? 'No pudimos confirmar la reserva. Revisa tu conexion y tu historial de canjes antes de intentar nuevamente.'
+          : 'No pudimos reservar el producto. Intenta nuevamente.'
+      ),
+    };
+  }
+
+  return { voucher: data, error: null };
+}
+
+export async function submitRedemptionCancellation(
+  redemptionId: string
+): Promise<{ voucher: RedemptionVoucher | null; error: Error | null }> {
+  trackAction('cancelRedemption', { redemption_id: redemptionId });
+
+  const { data, error } = await cancelRedemption(redemptionId);
+
+  if (error) {
+    if (error.code === NOT_CANCELLABLE) {
+      return { voucher: null, error: new Error('La tienda ya esta preparando este canje y no se puede cancelar.') };
+    }
+
+    reportError(error, 'redemptionVoucher.submitRedemptionCancellation', {
+      context: { redemption_id: redemptionId },
+    });
+    return {
+      voucher: null,
+      error: new Error(
+        error.kind === 'network' || error.kind === 'timeout'
+          ? 'No pudimos confirmar la cancelacion. Revisa tu conexion e intenta nuevamente.'
+          : 'No pudimos cancelar el canje. Intenta nuevamente.'
+      ),
+    };
+  }
+
+  return { voucher: data, error: null };
+}
@@ -0,0 +1,208 @@
+/**
+ * One place to run Supabase queries and `fetch` calls: every request gets a
+ * timeout, can be cancelled through an AbortSignal, and idempotent reads are
+ * retried with exponential backoff when the failure looks transient.
+ */
+
+export type RequestErrorKind = 'network' | 'timeout' | 'auth' | 'server' | 'client' | 'cancelled';
+
+export class RequestError extends Error {
+  kind: RequestErrorKind;
+  status: number | null;
+  code: string | null;
+  details: string | null;
+
+  constructor(
+    kind: RequestErrorKind,
+    message: string,
+    { status = null, code = null, details = null }: { status?: number | null; code?: string | null; details?: string | null } = {}
+  ) {
+    super(message);
+    this.name = 'RequestError';
+    this.kind = kind;
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export type RequestOptions = {
+  /** Aborts the request once it runs this long. */
+  timeoutMs?: number;
+  /** Safe to send twice. Only idempotent requests are retried. */
+  idempotent?: boolean;
+  /** Retries after the first attempt; defaults to `DEFAULT_READ_RETRIES` for idempotent requests. */
+  retries?: number;
+  /** Cancels the request, e.g. when the screen that started it unmounts. */
+  signal?: AbortSignal;
+};
+
+export const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_READ_RETRIES = 2;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 8000;
+
+const NETWORK_MESSAGE_PATTERN = /network request failed|failed to fetch|network error|load failed|networkerror/i;
+const AUTH_MESSAGE_PATTERN = /jwt|not authenticated|invalid login|refresh token|session/i;
+
+// PostgREST reports JWT problems as PGRST3xx; Postgres permission denied is 42501.
+const AUTH_ERROR_CODES = new Set(['PGRST301', 'PGRST302', 'PGRST303', '42501']);
+
+function readField(error: unknown, field: string): unknown {
+  return typeof error === 'object' && error !== null && field in error
+    ? (error as Record<string, unknown>)[field]
+    : undefined;
+}
+
+/**
+ * Buckets any thrown or returned error so callers can decide between
+ * retrying, falling back to cached data, or sending the user to sign in.
+ */
+export function classifyError(error: unknown, status: number | null = null): RequestErrorKind {
+  if (error instanceof RequestError) return error.kind;
+
+  const name = String(readField(error, 'name') ?? '');
+  const message = String(readField(error, 'message') ?? '');
+  const code = String(readField(error, 'code') ?? '');
+  const httpStatus = status ?? (Number(readField(error, 'status')) || null);
+
+  if (name === 'AbortError') return 'cancelled';
+  if (/timeout/i.test(message)) return 'timeout';
+  if (NETWORK_MESSAGE_PATTERN.test(message)) return 'network';
+  if (httpStatus === 401 || httpStatus === 403 || AUTH_ERROR_CODES.has(code) || name.startsWith('Auth')) {
+    return 'auth';
+  }
+  if ((httpStatus && httpStatus >= 500) || /^PGRST00/.test(code) || code === '57014') return 'server';
+  if (AUTH_MESSAGE_PATTERN.test(message)) return 'auth';
+  return 'client';
+}
+
+export function toRequestError(error: unknown, status: number | null = null): RequestError {
+  if (error instanceof RequestError) return error;
+
+  const message = String(readField(error, 'message') ?? '') || 'Error desconocido';
+  const code = readField(error, 'code');
+  const details = readField(error, 'details');
+
+  return new RequestError(classifyError(error, status), message, {
+    status,
+    code: typeof code === 'string' && code ? code : null,
+    details: typeof details === 'string' && details ? details : null,
+  });
+}
+
+function isRetryable(error: RequestError) {
+  return error.kind === 'network' || error.kind === 'timeout' || error.kind === 'server';
+}
+
+// Full jitter keeps a fleet of phones that lost signal together from
+// hammering the API in lockstep once it comes back.
+function retryDelay(attempt: number) {
+  const ceiling = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new RequestError('cancelled', 'Solicitud cancelada'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+async function attempt<T>(run: (signal: AbortSignal) => PromiseLike<T>, timeoutMs: number, outer?: AbortSignal) {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  outer?.addEventListener('abort', onAbort, { once: true });
+
+  // Not every callee listens to the signal (supabase.auth.getSession doesn't),
+  // so the abort itself has to settle the attempt
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+  });
+
+  try {
+    return await Promise.race([run(controller.signal), aborted]);
+  } catch (error) {
+    if (timedOut) throw new RequestError('timeout', 'La solicitud tardo demasiado (timeout)');
+    if (outer?.aborted) throw new RequestError('cancelled', 'Solicitud cancelada');
+    throw toRequestError(error);
+  } finally {
+    clearTimeout(timeoutId);
+    outer?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Runs `run` with a timeout, retrying idempotent requests on network,
+ * timeout and server errors. `run` receives the signal to hand to `fetch` or
+ * a Supabase builder's `abortSignal`. Always throws `RequestError`.
+ */
+export async function executeRequest<T>(
+  run: (signal: AbortSignal) => PromiseLike<T>,
+  options: RequestOptions = {}
+): Promise<T> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, idempotent = false, signal } = options;
+  const retries = options.retries ?? (idempotent ? DEFAULT_READ_RETRIES : 0);
+
+  for (let attemptIndex = 0; ; attemptIndex++) {
+    if (signal?.aborted) throw new RequestError('cancelled', 'Solicitud cancelada');
+
+    try {
+      return await attempt(run, timeoutMs, signal);
+    } catch (error) {
+      const requestError = toRequestError(error);
+      if (!idempotent || attemptIndex >= retries || !isRetryable(requestError)) {
+        throw requestError;
+      }
+      await wait(retryDelay(attemptIndex), signal);
+    }
+  }
+}
+
+type QueryResponse = { data: unknown; error: unknown; status?: number };
+type QueryData<R extends QueryResponse> = Extract<R, { error: null }>['data'];
+
+/**
+ * `executeRequest` for Supabase builders, which report failures in the
+ * response instead of throwing. Returns `data` or throws `RequestError`.
+ */
+export function executeQuery<R extends QueryResponse>(
+  run: (signal: AbortSignal) => PromiseLike<R>,
+  options: RequestOptions = {}
+): Promise<QueryData<R>> {
+  return executeRequest(async (signal) => {
+    const response = await run(signal);
+    if (response.error) {
+      throw toRequestError(response.error, response.status ?? null);
+    }
+    return response.data as QueryData<R>;
+  }, options);
+}
+
+/** `fetch` through `executeRequest`, rejecting non-2xx responses and parsing JSON. */
+export function fetchJson<T>(url: string, init: RequestInit = {}, options: RequestOptions = {}): Promise<T> {
+  return executeRequest(async (signal) => {
+    const response = await fetch(url, { ...init, signal });
+    const body = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      const message = typeof body?.error === 'string' ? body.error : `HTTP ${response.status}`;
+      throw new RequestError(classifyError({ message }, response.status), message, { status: response.status });
+    }
+
+    return body as T;
+  }, options);
+}
@@ -0,0 +1,74 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+
+import { buildProductPath } from './productLink';
+import type { BeneficiaryOrganization } from '../types';
+
+// Per beneficiary, so goals don't carry over to the next account signed in on the device
+const SAVINGS_GOALS_KEY_PREFIX = 'puntosclub:savings-goals:';
+
+/**
+ * A product the member is saving up for. Name, cost and image are a
+ * snapshot so the home screen can show progress without loading every
+ * catalog; they are refreshed whenever the catalog is loaded.
+ */
+export type SavingsGoal = {
+  productId: string;
+  organizationId: string;
+  name: string;
+  requiredPoints: number;
+  imageUrl: string | null;
+  pinnedAt: string;
+};
+
+/** Goals by membership id. */
+export type SavingsGoalsByMembership = Record<string, SavingsGoal[]>;
+
+export async function loadSavingsGoals(beneficiaryId: string): Promise<SavingsGoalsByMembership> {
+  try {
+    const raw = await AsyncStorage.getItem(`${SAVINGS_GOALS_KEY_PREFIX}${beneficiaryId}`);
+    return raw ? (JSON.parse(raw) as SavingsGoalsByMembership) : {};
+  } catch {
+    return {};
+  }
+}
+
+export async function saveSavingsGoals(beneficiaryId: string, goals: SavingsGoalsByMembership) {
+  await AsyncStorage.setItem(`${SAVINGS_GOALS_KEY_PREFIX}${beneficiaryId}`, JSON.stringify(goals));
+}
+
+export function goalProgress(goal: SavingsGoal, availablePoints: number) {
+  return {
+    progress: goal.requiredPoints > 0 ? Math.min(1, availablePoints / goal.requiredPoints) : 1,
+    missingPoints: Math.max(0, goal.requiredPoints - availablePoints),
+  };
+}
+
+/** Goals that `previous` could not afford and `updated` now can. */
+export function goalsReached(
+  goals: SavingsGoal[],
+  previous: BeneficiaryOrganization,
+  updated: BeneficiaryOrganization
+) {
+  return goals.filter(
+    (goal) =>
+      previous.available_points < goal.requiredPoints &&
+      updated.available_points >= goal.requiredPoints
+  );
+}
+
+export async function notifyGoalsReached(membership: BeneficiaryOrganization, goals: SavingsGoal[]) {
+  const organizationName = membership.organization?.name || 'tu organizacion';
+  await Promise.all(
+    goals.map((goal) =>
+      Notifications.scheduleNotificationAsync({
+        content: {
+          title: 'Alcanzaste tu meta!',
+          body: `Ya tienes los puntos para canjear ${goal.name} en ${organizationName}.`,
+          data: { url: buildProductPath(goal.organizationId, goal.productId) },
+        },
+        trigger: null,
+      })
+    )
+  );
+}
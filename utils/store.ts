@@ -0,0 +1,45 @@
+/**
+ * Minimal observable store. Components read it through `useStore` with a
+ * selector, so they only re-render when the slice they picked changes
+ * instead of whenever anything in the app state does.
+ */
+
+export type Store<S> = {
+  getState: () => S;
+  /** Shallow-merges `update` into the state; listeners only run if a field actually changed. */
+  setState: (update: Partial<S> | ((state: S) => Partial<S>)) => void;
+  subscribe: (listener: () => void) => () => void;
+  /** Back to the initial state, e.g. on sign out. */
+  reset: () => void;
+};
+
+export function createStore<S extends object>(initialState: S): Store<S> {
+  let state = initialState;
+  const listeners = new Set<() => void>();
+
+  const emit = () => listeners.forEach((listener) => listener());
+
+  return {
+    getState: () => state,
+    setState(update) {
+      const partial = typeof update === 'function' ? update(state) : update;
+      const changed = (Object.keys(partial) as (keyof S)[]).some(
+        (key) => !Object.is(partial[key], state[key])
+      );
+      if (!changed) return;
+      state = { ...state, ...partial };
+      emit();
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    reset() {
+      if (state === initialState) return;
+      state = initialState;
+      emit();
+    },
+  };
+}
@@ -0,0 +1,55 @@
+import type { BeneficiaryOrganization, MembershipTier } from '../types';
+
+export type TierProgress = {
+  current: MembershipTier | null;
+  next: MembershipTier | null;
+  /** Points counted towards tiers under the organization's basis. */
+  points: number;
+  pointsToNext: number;
+  /** 0 to 1 between the current threshold and the next one; 1 at the top tier. */
+  progress: number;
+};
+
+const DEFAULT_TIER_COLOR = '#7C3AED';
+
+export function tierColor(tier: MembershipTier | null) {
+  return tier?.color || DEFAULT_TIER_COLOR;
+}
+
+export function tierPoints(membership: BeneficiaryOrganization) {
+  return membership.organization?.tier_basis === 'rolling_12_months'
+    ? membership.points_earned_last_12_months ?? 0
+    : membership.total_points_earned;
+}
+
+/** Where the member stands, or null when the organization has no tiers. */
+export function getTierProgress(membership: BeneficiaryOrganization): TierProgress | null {
+  const tiers = membership.tiers ?? [];
+  if (tiers.length === 0) return null;
+
+  const points = tierPoints(membership);
+  const reached = tiers.filter((tier) => points >= tier.min_points);
+  const current = reached[reached.length - 1] ?? null;
+  const next = tiers.find((tier) => points < tier.min_points) ?? null;
+
+  if (!next) {
+    return { current, next, points, pointsToNext: 0, progress: 1 };
+  }
+
+  const floor = current?.min_points ?? 0;
+  return {
+    current,
+    next,
+    points,
+    pointsToNext: next.min_points - points,
+    progress: Math.min(1, Math.max(0, (points - floor) / (next.min_points - floor))),
+  };
+}
+
+/** The tier reached when moving from `before` to `after`, if it is a higher one. */
+export function detectTierUpgrade(before: BeneficiaryOrganization, after: BeneficiaryOrganization) {
+  const previous = getTierProgress(before)?.current;
+  const current = getTierProgress(after)?.current;
+  if (!current || current.id === previous?.id) return null;
+  return !previous || current.min_points > previous.min_points ? current : null;
+}
@@ -0,0 +1,319 @@
+import { Platform, Linking } from 'react-native';
+import { Asset } from 'expo-asset';
+import Constants from 'expo-constants';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { zipSync } from 'fflate';
+import forge from 'node-forge';
+import { sha1 } from '@noble/hashes/legacy.js';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils.js';
+
+import { supabase } from './supabase';
+import { fetchJson } from './request';
+import type { Beneficiary, BeneficiaryOrganization } from '../types';
+
+export type WalletPassConfig = {
+  passTypeIdentifier: string;
+  teamIdentifier: string;
+};
+
+/** Returns a detached PKCS#7 signature (DER) of the manifest. */
+export type WalletPassSigner = (manifest: Uint8Array) => Promise<Uint8Array>;
+
+export type CertificateSignerOptions = {
+  certificatePem: string;
+  privateKeyPem: string;
+  privateKeyPassword?: string;
+  wwdrCertificatePem: string;
+};
+
+/**
+ * A wallet card is either the beneficiary's global card (no membership) or
+ * a single organization membership.
+ */
+export type WalletCardSource = {
+  beneficiary: Beneficiary;
+  membership?: BeneficiaryOrganization;
+  totalPoints?: number;
+};
+
+const DEFAULT_BRAND_COLOR = '#7C3AED';
+
+export function getWalletPassConfig(): WalletPassConfig {
+  const extra = Constants.expoConfig?.extra?.walletPass ?? {};
+  return {
+    passTypeIdentifier: extra.passTypeIdentifier || 'pass.com.agustincassani.PuntosClub',
+    teamIdentifier: extra.teamIdentifier || '',
+  };
+}
+
+function bytesFromBinaryString(value: string) {
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) {
+    bytes[i] = value.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function binaryStringFromBytes(bytes: Uint8Array) {
+  let value = '';
+  for (let i = 0; i < bytes.length; i++) {
+    value += String.fromCharCode(bytes[i]);
+  }
+  return value;
+}
+
+function hexToRgb(hex: string) {
+  const value = hex.replace('#', '');
+  const r = parseInt(value.slice(0, 2), 16);
+  const g = parseInt(value.slice(2, 4), 16);
+  const b = parseInt(value.slice(4, 6), 16);
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+/**
+ * Signs with a certificate held on the device. Meant for local testing with
+ * a self-issued test certificate; production passes are built and signed by
+ * the backend so the real private key never ships in the app.
+ */
+export function createCertificateSigner(options: CertificateSignerOptions): WalletPassSigner {
+  return async (manifest) => {
+    const certificate = forge.pki.certificateFromPem(options.certificatePem);
+    const wwdr = forge.pki.certificateFromPem(options.wwdrCertificatePem);
+    const privateKey = options.privateKeyPassword
+      ? forge.pki.decryptRsaPrivateKey(options.privateKeyPem, options.privateKeyPassword)
+      : forge.pki.privateKeyFromPem(options.privateKeyPem);
+
+    if (!privateKey) {
+      throw new Error('No se pudo leer la clave privada del certificado');
+    }
+
+    const p7 = forge.pkcs7.createSignedData();
+    p7.content = forge.util.createBuffer(binaryStringFromBytes(manifest));
+    p7.addCertificate(certificate);
+    p7.addCertificate(wwdr);
+    p7.addSigner({
+      key: privateKey,
+      certificate,
+      digestAlgorithm: forge.pki.oids.sha256,
+      authenticatedAttributes: [
+        { type: forge.pki.oids.contentType, value: forge.pki.oids.data },
+        { type: forge.pki.oids.messageDigest },
+        // forge stamps the current time when sign() runs
+        { type: forge.pki.oids.signingTime },
+      ],
+    });
+    p7.sign({ detached: true });
+
+    return bytesFromBinaryString(forge.asn1.toDer(p7.toAsn1()).getBytes());
+  };
+}
+
+/**
+ * Signer for a local test certificate. Only development builds carry one
+ * (see app.config.js); everywhere else the backend builds and signs the pass.
+ */
+export function getTestSigner(): WalletPassSigner | null {
+  const testSigner = Constants.expoConfig?.extra?.walletPass?.testSigner;
+
+  if (__DEV__ && testSigner?.certificatePem && testSigner?.privateKeyPem && testSigner?.wwdrCertificatePem) {
+    return createCertificateSigner(testSigner);
+  }
+
+  return null;
+}
+
+function getSerialNumber({ beneficiary, membership }: WalletCardSource) {
+  return membership ? `membership-${membership.id}` : `beneficiary-${beneficiary.id}`;
+}
+
+function getPoints({ membership, totalPoints }: WalletCardSource) {
+  return membership ? membership.available_points : totalPoints ?? 0;
+}
+
+function getHolderName({ beneficiary }: WalletCardSource) {
+  return `${beneficiary.first_name || ''} ${beneficiary.last_name || ''}`.trim();
+}
+
+/**
+ * Builds pass.json for an Apple Wallet store card. Only membership cards
+ * carry a barcode: the beneficiary QR rotates, so a static pass can't hold it.
+ */
+export function buildApplePass(source: WalletCardSource, config: WalletPassConfig = getWalletPassConfig()) {
+  const { membership } = source;
+  const organization = membership?.organization;
+  const brandColor = organization?.brand_color || DEFAULT_BRAND_COLOR;
+  const membershipNumber = membership?.membership_number;
+  const barcodeFormat = organization?.card_barcode_format === 'qr' || !organization?.card_barcode_format
+    ? 'PKBarcodeFormatQR'
+    : 'PKBarcodeFormatCode128';
+
+  return {
+    formatVersion: 1,
+    passTypeIdentifier: config.passTypeIdentifier,
+    teamIdentifier: config.teamIdentifier,
+    serialNumber: getSerialNumber(source),
+    organizationName: organization?.name || 'PuntosClub',
+    description: organization ? `Tarjeta de socio ${organization.name}` : 'Tarjeta PuntosClub',
+    logoText: organization?.name || 'PuntosClub',
+    backgroundColor: hexToRgb(brandColor),
+    foregroundColor: 'rgb(255, 255, 255)',
+    labelColor: 'rgb(233, 213, 255)',
+    storeCard: {
+      primaryFields: [
+        { key: 'points', label: 'PUNTOS', value: getPoints(source), changeMessage: 'Ahora tenes %@ puntos' },
+      ],
+      secondaryFields: [
+        { key: 'holder', label: 'SOCIO', value: getHolderName(source) },
+      ],
+      auxiliaryFields: membershipNumber
+        ? [{ key: 'membershipNumber', label: 'NUMERO DE SOCIO', value: membershipNumber }]
+        : [],
+      backFields: membership
+        ? [{ key: 'joined', label: 'Miembro desde', value: new Date(membership.joined_date).toLocaleDateString('es-AR') }]
+        : [{ key: 'help', label: 'Como sumar puntos', value: 'Abri la app PuntosClub y mostra tu QR al cajero.' }],
+    },
+    ...(membershipNumber && {
+      barcodes: [
+        {
+          format: barcodeFormat,
+          message: membershipNumber,
+          messageEncoding: 'iso-8859-1',
+          altText: membershipNumber,
+        },
+      ],
+    }),
+  };
+}
+
+/**
+ * Assembles the .pkpass archive: pass.json and images, a manifest with the
+ * SHA-1 of each file, and the detached signature of that manifest.
+ */
+export async function buildPkPass(
+  source: WalletCardSource,
+  images: Record<string, Uint8Array>,
+  signer: WalletPassSigner
+) {
+  const files: Record<string, Uint8Array> = {
+    'pass.json': utf8ToBytes(JSON.stringify(buildApplePass(source))),
+    ...images,
+  };
+
+  const manifest: Record<string, string> = {};
+  for (const [name, content] of Object.entries(files)) {
+    manifest[name] = bytesToHex(sha1(content));
+  }
+  const manifestBytes = utf8ToBytes(JSON.stringify(manifest));
+
+  return zipSync({
+    ...files,
+    'manifest.json': manifestBytes,
+    signature: await signer(manifestBytes),
+  });
+}
+
+async function loadPassImages() {
+  const [icon] = await Asset.loadAsync(require('../assets/images/icon.png'));
+  const bytes = await new File(icon.localUri || icon.uri).bytes();
+  return { 'icon.png': bytes, 'logo.png': bytes };
+}
+
+async function getWalletApiRequest() {
+  const { data: { session } } = await supabase.auth.getSession();
+  const apiUrl = process.env.EXPO_PUBLIC_API_URL;
+
+  if (!session?.access_token || !apiUrl) {
+    throw new Error('No se pudo generar el pase');
+  }
+
+  return {
+    apiUrl,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`,
+    },
+  };
+}
+
+/**
+ * Asks the backend for the signed .pkpass. Only the membership goes up: the
+ * server loads the card data itself, so a client can't get a signed pass
+ * with made-up points. Without a membership it is the beneficiary's card.
+ */
+async function fetchSignedPkPass({ membership }: WalletCardSource) {
+  const { apiUrl, headers } = await getWalletApiRequest();
+
+  const { pkpass } = await fetchJson<{ pkpass: string }>(
+    `${apiUrl}/api/wallet/apple-pass`,
+    { method: 'POST', headers, body: JSON.stringify({ membershipId: membership?.id ?? null }) },
+    { idempotent: true }
+  ).catch(() => {
+    throw new Error('No se pudo generar el pase');
+  });
+  return bytesFromBinaryString(atob(pkpass));
+}
+
+/** Writes the .pkpass to the cache directory and opens the share sheet. */
+export async function exportPkPass(source: WalletCardSource): Promise<{ error: Error | null }> {
+  try {
+    const testSigner = getTestSigner();
+    const pkpass = testSigner
+      ? await buildPkPass(source, await loadPassImages(), testSigner)
+      : await fetchSignedPkPass(source);
+    const file = new File(Paths.cache, `${getSerialNumber(source)}.pkpass`);
+    if (file.exists) {
+      file.delete();
+    }
+    file.write(pkpass);
+
+    await Sharing.shareAsync(file.uri, {
+      mimeType: 'application/vnd.apple.pkpass',
+      UTI: 'com.apple.pkpass',
+    });
+    return { error: null };
+  } catch (error) {
+    return { error: error as Error };
+  }
+}
+
+/**
+ * Google Wallet objects must be wrapped in a JWT signed with the issuer's
+ * service account, so the backend returns a ready-to-open save URL.
+ */
+export async function getGoogleWalletSaveUrl(
+  source: WalletCardSource
+): Promise<{ url: string | null; error: Error | null }> {
+  try {
+    const { apiUrl, headers } = await getWalletApiRequest();
+
+    // Same as the Apple pass: the server builds the loyaltyObject from the membership
+    const { saveUrl } = await fetchJson<{ saveUrl: string }>(
+      `${apiUrl}/api/wallet/google-save-url`,
+      { method: 'POST', headers, body: JSON.stringify({ membershipId: source.membership?.id ?? null }) },
+      { idempotent: true }
+    );
+    return { url: saveUrl, error: null };
+  } catch {
+    return { url: null, error: new Error('No se pudo generar el pase') };
+  }
+}
+
+/** Adds the card to Apple Wallet on iOS and Google Wallet elsewhere. */
+export async function addCardToWallet(source: WalletCardSource): Promise<{ error: Error | null }> {
+  if (Platform.OS === 'ios') {
+    return exportPkPass(source);
+  }
+
+  const { url, error } = await getGoogleWalletSaveUrl(source);
+  if (error || !url) {
+    return { error: error || new Error('No se pudo generar el pase') };
+  }
+
+  try {
+    await Linking.openURL(url);
+    return { error: null };
+  } catch (error) {
+    return { error: error as Error };
+  }
+}